@@ -2,7 +2,9 @@
  * Performance benchmark utilities
  */
 
-import deepEqualCheck from '../src/index';
+import deepEqualCheck, { compileEqual, createDeepEqual } from '../src/index';
+import type { DeepEqualOptions } from '../src/index';
+import { baselineDeepEqualCheck } from './baseline';
 import type { BenchmarkResult } from './types';
 
 export function benchmark(iterations = 100000): BenchmarkResult | null {
@@ -86,3 +88,203 @@ export function compareBenchmark(
     console.log(`${name.padEnd(20)}: ${timeTaken.toFixed(2)}ms (${opsPerSecond.toFixed(0)} ops/sec)`);
   }
 }
+
+function createLargeCollections(size: number) {
+  const records = (reverse: boolean) => {
+    const list = Array.from({ length: size }, (_, i) => ({ id: i, name: `item${i}`, tags: [i % 7] }));
+    return reverse ? list.reverse() : list;
+  };
+  return [
+    { name: `Set of ${size} numbers`, a: new Set(records(false).map(r => r.id)), b: new Set(records(true).map(r => r.id)) },
+    { name: `Set of ${size} objects`, a: new Set(records(false)), b: new Set(records(true)) },
+    { name: `Map of ${size} (primitive keys)`, a: new Map(records(false).map(r => [r.id, r])), b: new Map(records(true).map(r => [r.id, r])) },
+    { name: `Map of ${size} (object keys)`, a: new Map(records(false).map(r => [r, r.id])), b: new Map(records(true).map(r => [r, r.id])) },
+  ];
+}
+
+export function largeCollectionBenchmark(size = 10000, iterations = 5): void {
+  console.log(`\nLarge Set/Map Benchmark (${size} members, ${iterations} iterations):`);
+  console.log('=' .repeat(60));
+
+  for (const { name, a, b } of createLargeCollections(size)) {
+    const start = performance.now();
+
+    for (let i = 0; i < iterations; i++) {
+      deepEqualCheck(a, b);
+    }
+
+    const timeTaken = performance.now() - start;
+    console.log(`${name.padEnd(32)}: ${(timeTaken / iterations).toFixed(2)}ms per comparison`);
+  }
+}
+
+/**
+ * Times a comparator over a list of pairs and returns operations per second
+ */
+function opsPerSecond(fn: (a: unknown, b: unknown) => boolean, cases: [unknown, unknown][], iterations: number): number {
+  const start = performance.now();
+  for (let i = 0; i < iterations; i++) {
+    for (const [a, b] of cases) {
+      fn(a, b);
+    }
+  }
+  return (iterations * cases.length) / ((performance.now() - start) / 1000);
+}
+
+/**
+ * The default options against the 1.1.0 implementation, on values both compare
+ * alike: what the options, types and cycle handling added since cost where unused
+ */
+export function baselineBenchmark(iterations = 100000): void {
+  const record = (id: number) => ({
+    id,
+    name: `user-${id}`,
+    active: id % 2 === 0,
+    tags: ['a', 'b', 'c'],
+    address: { street: 'Main St', city: 'Oslo', zip: 1000 + id },
+    scores: [id, id + 1, id + 2],
+  });
+  const scenarios: Array<{ name: string; cases: [unknown, unknown][]; iterations?: number }> = [
+    { name: 'primitives', cases: [[1, 1], ['hello', 'hello'], [true, false], [null, undefined], [NaN, NaN]] },
+    { name: 'small objects and arrays', cases: [
+      [{ a: 1, b: 'x' }, { a: 1, b: 'x' }],
+      [[1, 2, 3], [1, 2, 3]],
+      [{ user: { id: 1, tags: ['a'] } }, { user: { id: 1, tags: ['a'] } }],
+      [{ a: 1 }, { a: 2 }],
+    ] },
+    { name: 'records', cases: [[record(1), record(1)], [record(2), { ...record(2), active: true }]] },
+    {
+      name: 'array of 100 records',
+      cases: [[Array.from({ length: 100 }, (_, i) => record(i)), Array.from({ length: 100 }, (_, i) => record(i))]],
+      iterations: iterations / 100,
+    },
+    { name: 'Dates and RegExps', cases: [[new Date(0), new Date(0)], [/test/gi, /test/gi], [new Date(0), new Date(1)]] },
+    { name: 'small Sets and Maps', cases: [
+      [new Set([1, 2, 3]), new Set([3, 2, 1])],
+      [new Map([['a', 1], ['b', 2]]), new Map([['b', 2], ['a', 1]])],
+      [new Set([{ id: 1 }, { id: 2 }]), new Set([{ id: 2 }, { id: 1 }])],
+    ] },
+  ];
+
+  console.log(`\nAgainst 1.1.0 (${iterations} iterations per scenario unless fewer are noted):`);
+  console.log('=' .repeat(60));
+
+  for (const { name, cases, iterations: count = iterations } of scenarios) {
+    const baseline = opsPerSecond(baselineDeepEqualCheck, cases, count);
+    const perCall = opsPerSecond((a, b) => deepEqualCheck(a, b), cases, count);
+    const created = opsPerSecond(createDeepEqual(), cases, count);
+    console.log(`${name}${count === iterations ? '' : ` (${count} iterations)`}:`);
+    console.log(`  ${'1.1.0 deepEqualCheck(a, b)'.padEnd(34)}: ${baseline.toFixed(0)} ops/sec`);
+    console.log(`  ${'deepEqualCheck(a, b)'.padEnd(34)}: ${perCall.toFixed(0)} ops/sec (${(perCall / baseline).toFixed(2)}x)`);
+    console.log(`  ${'createDeepEqual()'.padEnd(34)}: ${created.toFixed(0)} ops/sec (${(created / baseline).toFixed(2)}x)`);
+  }
+}
+
+/**
+ * Per-call API against comparators made once by `createDeepEqual`, with and
+ * without a reused traversal state
+ */
+export function factoryBenchmark(iterations = 100000): void {
+  const smallCases: [unknown, unknown][] = [
+    [{ a: 1, b: 'x' }, { a: 1, b: 'x' }],
+    [[1, 2, 3], [1, 2, 3]],
+    [{ user: { id: 1, tags: ['a'] } }, { user: { id: 1, tags: ['a'] } }],
+    [{ a: 1 }, { a: 2 }],
+  ];
+  const scenarios: Array<{ name: string; options: DeepEqualOptions }> = [
+    { name: 'default options', options: {} },
+    { name: 'strict mode', options: { mode: 'strict' } },
+    { name: 'ignorePaths + tolerance', options: { ignorePaths: ['**.updatedAt', 'meta.*'], epsilon: 1e-9 } },
+  ];
+
+  console.log(`\nFactory Benchmark (${iterations} iterations over ${smallCases.length} small pairs):`);
+  console.log('=' .repeat(60));
+
+  for (const { name, options } of scenarios) {
+    const perCall = opsPerSecond((a, b) => deepEqualCheck(a, b, options), smallCases, iterations);
+    const created = opsPerSecond(createDeepEqual(options), smallCases, iterations);
+    const reused = opsPerSecond(createDeepEqual(options, { reuseState: true }), smallCases, iterations);
+    console.log(`${name}:`);
+    console.log(`  ${'deepEqualCheck(a, b, options)'.padEnd(34)}: ${perCall.toFixed(0)} ops/sec`);
+    console.log(`  ${'createDeepEqual(options)'.padEnd(34)}: ${created.toFixed(0)} ops/sec (${(created / perCall).toFixed(2)}x)`);
+    console.log(`  ${'createDeepEqual + reuseState'.padEnd(34)}: ${reused.toFixed(0)} ops/sec (${(reused / perCall).toFixed(2)}x)`);
+  }
+}
+
+/**
+ * Comparators compiled for a fixed record shape against the generic traversal,
+ * on records that fit the shape and on records that do not
+ */
+export function compileBenchmark(iterations = 20000): void {
+  const record = (id: number, city = 'Oslo') => ({
+    id,
+    name: `user-${id}`,
+    active: id % 2 === 0,
+    tags: ['a', 'b', 'c'],
+    address: { street: 'Main St', city, zip: 1000 + id },
+    scores: [id, id + 1, id + 2],
+  });
+  const scenarios: Array<{ name: string; cases: [unknown, unknown][] }> = [
+    { name: 'equal records', cases: [[record(1), record(1)], [record(2), record(2)]] },
+    { name: 'records differing deep down', cases: [[record(1), record(1, 'Bergen')], [record(2), record(2, 'Bergen')]] },
+    { name: 'array of 100 records', cases: [[Array.from({ length: 100 }, (_, i) => record(i)), Array.from({ length: 100 }, (_, i) => record(i))]] },
+    {
+      name: 'records not fitting the shape',
+      cases: [[{ ...record(1), address: new Map([['city', 'Oslo']]) }, { ...record(1), address: new Map([['city', 'Oslo']]) }]],
+    },
+  ];
+  const equalRecords = compileEqual(record(0));
+  const equalRecordLists = compileEqual([record(0)]);
+
+  console.log(`\nCompiled Comparator Benchmark (${iterations} iterations per scenario):`);
+  console.log('=' .repeat(60));
+
+  for (const { name, cases } of scenarios) {
+    const count = name.startsWith('array') ? iterations / 10 : iterations;
+    const compiled = name.startsWith('array') ? equalRecordLists : equalRecords;
+    const generic = opsPerSecond(createDeepEqual(), cases, count);
+    const specialised = opsPerSecond(compiled, cases, count);
+    console.log(`${name}:`);
+    console.log(`  ${'createDeepEqual()'.padEnd(34)}: ${generic.toFixed(0)} ops/sec`);
+    console.log(`  ${'compileEqual(sample)'.padEnd(34)}: ${specialised.toFixed(0)} ops/sec (${(specialised / generic).toFixed(2)}x)`);
+  }
+}
+
+/**
+ * Linked lists and nested containers at depths compared by recursion and on the
+ * explicit stack, which takes over below a few hundred levels, with and without
+ * path options matched at every level
+ */
+export function deepStructureBenchmark(iterations = 20): void {
+  const list = (length: number) => {
+    let node: unknown = { end: true };
+    for (let i = 0; i < length; i++) node = { value: i, next: node };
+    return node;
+  };
+  const nested = (levels: number) => {
+    let value: unknown = [1, 'x'];
+    for (let i = 0; i < levels; i++) value = i % 3 === 0 ? [value] : i % 3 === 1 ? new Map([['k', value]]) : { value };
+    return value;
+  };
+  const scenarios: Array<{ name: string; a: unknown; b: unknown; options?: DeepEqualOptions }> = [
+    { name: 'linked list of 100', a: list(100), b: list(100) },
+    { name: 'linked list of 1000', a: list(1000), b: list(1000) },
+    { name: 'linked list of 100000', a: list(100000), b: list(100000) },
+    { name: 'arrays, Maps and objects, 10000 deep', a: nested(10000), b: nested(10000) },
+    { name: 'linked list of 100000, ignorePaths', a: list(100000), b: list(100000), options: { ignorePaths: ['**.leaf'] } },
+    { name: 'linked list of 100000, onlyPaths', a: list(100000), b: list(100000), options: { onlyPaths: ['**.value'] } },
+  ];
+
+  console.log(`\nDeep Structure Benchmark (${iterations} iterations):`);
+  console.log('=' .repeat(60));
+
+  for (const { name, a, b, options } of scenarios) {
+    const count = name.endsWith('100') ? iterations * 100 : iterations;
+    const start = performance.now();
+    for (let i = 0; i < count; i++) {
+      deepEqualCheck(a, b, options);
+    }
+    const timeTaken = performance.now() - start;
+    console.log(`${name.padEnd(40)}: ${(timeTaken / count).toFixed(3)}ms per comparison`);
+  }
+}
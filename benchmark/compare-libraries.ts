@@ -6,6 +6,7 @@ import isEqual from 'lodash/isEqual';
 // @ts-ignore - deep-eql doesn't have TypeScript definitions
 import deepEqual from 'deep-eql';
 import fastDeepEqual from 'fast-deep-equal';
+import { baselineDeepEqualCheck } from './baseline';
 
 console.log('🔍 Deep Equality Library Performance Comparison\n');
 
@@ -19,8 +20,14 @@ const safeFastDeepEqual = (a: unknown, b: unknown): boolean => {
   }
 };
 
+const largeRecords = (reverse: boolean) => {
+  const records = Array.from({ length: 1000 }, (_, i) => ({ id: i, name: `item${i}`, tags: [i % 7] }));
+  return reverse ? records.reverse() : records;
+};
+
 // Test cases covering various scenarios (excluding problematic circular refs)
-const testCases: Array<{ name: string; a: unknown; b: unknown }> = [
+// `iterations` overrides the default of 10,000 for expensive cases
+const testCases: Array<{ name: string; a: unknown; b: unknown; iterations?: number }> = [
   // Primitives
   { name: 'Primitives (same)', a: 42, b: 42 },
   { name: 'Primitives (different)', a: 42, b: 43 },
@@ -62,7 +69,16 @@ const testCases: Array<{ name: string; a: unknown; b: unknown }> = [
   { name: 'Empty Objects', a: {}, b: {} },
   { name: 'Empty Arrays', a: [], b: [] },
   { name: 'Large Objects', a: Object.fromEntries(Array.from({length: 1000}, (_, i) => [`key${i}`, i])), 
-    b: Object.fromEntries(Array.from({length: 1000}, (_, i) => [`key${i}`, i])) }
+    b: Object.fromEntries(Array.from({length: 1000}, (_, i) => [`key${i}`, i])) },
+
+  // Large collections
+  { name: 'Large Sets (1k numbers)', a: new Set(largeRecords(false).map(r => r.id)),
+    b: new Set(largeRecords(true).map(r => r.id)), iterations: 100 },
+  { name: 'Large Sets (1k objects)', a: new Set(largeRecords(false)), b: new Set(largeRecords(true)), iterations: 20 },
+  { name: 'Large Maps (1k primitive keys)', a: new Map(largeRecords(false).map(r => [r.id, r])),
+    b: new Map(largeRecords(true).map(r => [r.id, r])), iterations: 100 },
+  { name: 'Large Maps (1k object keys)', a: new Map(largeRecords(false).map(r => [r, r.id])),
+    b: new Map(largeRecords(true).map(r => [r, r.id])), iterations: 20 }
 ];
 
 // Create competitors array
@@ -71,6 +87,10 @@ const competitors = [
     name: 'deep-equal-check',
     fn: (a: unknown, b: unknown) => deepEqualCheck(a, b)
   },
+  {
+    name: 'deep-equal-check 1.1',
+    fn: (a: unknown, b: unknown) => baselineDeepEqualCheck(a, b)
+  },
   {
     name: 'lodash/isEqual',
     fn: (a: unknown, b: unknown) => isEqual(a, b)
@@ -92,7 +112,7 @@ console.log('=' .repeat(80));
 compareBenchmark(competitors, 100000);
 
 // Individual test case performance
-console.log('\n🔬 Individual Test Case Performance (10,000 iterations each)');
+console.log('\n🔬 Individual Test Case Performance (10,000 iterations each unless noted)');
 console.log('=' .repeat(80));
 
 const summary: Array<{ name: string; wins: number; avgRank: number; totalTime: number }> = [];
@@ -107,7 +127,8 @@ for (const competitor of competitors) {
 }
 
 for (const testCase of testCases) {
-  console.log(`\n${testCase.name}:`);
+  const iterations = testCase.iterations ?? 10000;
+  console.log(`\n${testCase.name}${testCase.iterations ? ` (${iterations} iterations)` : ''}:`);
   console.log('-'.repeat(40));
   
   const results: Array<{ name: string; time: number; opsPerSec: number }> = [];
@@ -115,13 +136,13 @@ for (const testCase of testCases) {
   for (const { name, fn } of competitors) {
     const start = performance.now();
     
-    for (let i = 0; i < 10000; i++) {
+    for (let i = 0; i < iterations; i++) {
       fn(testCase.a, testCase.b);
     }
     
     const end = performance.now();
     const timeTaken = end - start;
-    const opsPerSecond = 10000 / (timeTaken / 1000);
+    const opsPerSecond = iterations / (timeTaken / 1000);
     
     results.push({ name, time: timeTaken, opsPerSec: opsPerSecond });
     
@@ -1,6 +1,18 @@
 #!/usr/bin/env ts-node
 
-import { benchmark } from './benchmark';
+import {
+  baselineBenchmark,
+  benchmark,
+  compileBenchmark,
+  deepStructureBenchmark,
+  factoryBenchmark,
+  largeCollectionBenchmark,
+} from './benchmark';
 
 // Run the benchmark
-benchmark(); 
\ No newline at end of file
+benchmark();
+baselineBenchmark();
+largeCollectionBenchmark();
+factoryBenchmark();
+compileBenchmark();
+deepStructureBenchmark();
@@ -0,0 +1,60 @@
+import { deepDiff, deepEqualCheck, deepMatches } from './index';
+
+describe('arrayOrder', () => {
+  it('compares arrays in order by default', () => {
+    expect(deepEqualCheck([1, 2, 3], [3, 2, 1])).toBe(false);
+    expect(deepEqualCheck([1, 2, 3], [3, 2, 1], { arrayOrder: 'strict' })).toBe(false);
+  });
+
+  it('compares arrays as multisets with ignore', () => {
+    const options = { arrayOrder: 'ignore' } as const;
+    expect(deepEqualCheck([1, 2, 3], [3, 1, 2], options)).toBe(true);
+    expect(deepEqualCheck(['a', 'a', 'b'], ['b', 'a', 'a'], options)).toBe(true);
+    expect(deepEqualCheck(['a', 'a', 'b'], ['a', 'b', 'b'], options)).toBe(false);
+    expect(deepEqualCheck([1, 2], [1, 2, 2], options)).toBe(false);
+  });
+
+  it('matches nested values and nested arrays without order', () => {
+    const rows = (...ids: number[]) => ids.map(id => ({ id, tags: [`t${id}`, 'shared'] }));
+    const shuffled = rows(3, 1, 2).map(row => ({ ...row, tags: [...row.tags].reverse() }));
+    expect(deepEqualCheck(rows(1, 2, 3), shuffled, { arrayOrder: 'ignore' })).toBe(true);
+    expect(deepEqualCheck(new Set([[1, 2]]), new Set([[2, 1]]), { arrayOrder: 'ignore' })).toBe(true);
+    expect(deepEqualCheck(new Map([[[1, 2], 'x']]), new Map([[[2, 1], 'x']]), { arrayOrder: 'ignore' })).toBe(true);
+  });
+
+  it('works in strict mode', () => {
+    expect(deepEqualCheck([{ a: 1 }, 2], [2, { a: 1 }], { mode: 'strict', arrayOrder: 'ignore' })).toBe(true);
+    expect(deepEqualCheck([1, -0], [0, 1], { mode: 'strict', arrayOrder: 'ignore' })).toBe(false);
+  });
+
+  it('combines with partial matching', () => {
+    expect(deepMatches([{ id: 2, x: 1 }, { id: 1, x: 2 }], [{ id: 1 }, { id: 2 }], { arrayOrder: 'ignore' })).toBe(true);
+    expect(deepMatches([3, 1, 2], [1, 2], { arrayOrder: 'ignore' })).toBe(false);
+    expect(deepMatches([3, 1, 2], [1, 2], { arrayOrder: 'ignore', partialArrays: 'prefix' })).toBe(true);
+  });
+
+  it('reports unpaired elements', () => {
+    expect(deepDiff(['a', 'b', 'c'], ['c', 'd', 'a'], { arrayOrder: 'ignore' })).toEqual([
+      { path: [1], kind: 'removed', a: 'b', b: undefined },
+      { path: [1], kind: 'added', a: undefined, b: 'd' },
+    ]);
+  });
+});
+
+describe('arrayOrderPaths', () => {
+  const a = { tags: ['x', 'y'], steps: [1, 2], nested: { tags: ['p', 'q'] } };
+  const b = { tags: ['y', 'x'], steps: [1, 2], nested: { tags: ['q', 'p'] } };
+
+  it('ignores order only for arrays at matching paths', () => {
+    expect(deepEqualCheck(a, b, { arrayOrderPaths: [['**.tags', 'ignore']] })).toBe(true);
+    expect(deepEqualCheck(a, b, { arrayOrderPaths: [['tags', 'ignore']] })).toBe(false);
+    expect(deepEqualCheck({ ...a, steps: [2, 1] }, b, { arrayOrderPaths: [['**.tags', 'ignore']] })).toBe(false);
+  });
+
+  it('overrides arrayOrder, first matching pattern first', () => {
+    const reversedSteps = { ...b, steps: [2, 1] };
+    expect(deepEqualCheck(a, reversedSteps, { arrayOrder: 'ignore', arrayOrderPaths: [['steps', 'strict']] })).toBe(false);
+    expect(deepEqualCheck(a, b, { arrayOrder: 'ignore', arrayOrderPaths: [['steps', 'strict']] })).toBe(true);
+    expect(deepEqualCheck(a, b, { arrayOrderPaths: [['nested.tags', 'strict'], ['**', 'ignore']] })).toBe(false);
+  });
+});
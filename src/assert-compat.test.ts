@@ -0,0 +1,273 @@
+import assert from 'assert';
+import { inspect, isDeepStrictEqual } from 'util';
+import { deepDiff, deepEqualCheck } from './index';
+import type { DeepEqualOptions } from './index';
+import { createRandom } from './test-utils';
+
+const SEEDS = Number(process.env.SEEDS ?? 10000);
+const strict = { mode: 'strict' } as const;
+const loose = { mode: 'loose' } as const;
+
+// Not part of the ES2020 typings the library is compiled against
+type ErrorWithCauseConstructor = new (message: string, options?: { cause?: unknown }) => Error;
+const AggregateError = (globalThis as any).AggregateError as new (errors: unknown[], message: string) => Error;
+
+class Point {
+  constructor(public x: unknown) {}
+}
+
+class Other {
+  constructor(public x: unknown) {}
+}
+
+describe("mode: 'strict'", () => {
+  it('uses Object.is for primitives', () => {
+    expect(deepEqualCheck(NaN, NaN, strict)).toBe(true);
+    expect(deepEqualCheck(0, -0, strict)).toBe(false);
+    expect(deepEqualCheck([0], [-0], strict)).toBe(false);
+    expect(deepEqualCheck(new Set([0]), new Set([-0]), strict)).toBe(true);
+  });
+
+  it('requires the same prototype and type tag', () => {
+    expect(deepEqualCheck(new Point(1), new Other(1), strict)).toBe(false);
+    expect(deepEqualCheck(Object.create(null), {}, strict)).toBe(false);
+    expect(deepEqualCheck({ [Symbol.toStringTag]: 'X' }, {}, strict)).toBe(false);
+    expect(deepEqualCheck(new Point(1), new Other(1), { ...strict, checkPrototypes: false })).toBe(true);
+  });
+
+  it('distinguishes missing keys, undefined values and array holes', () => {
+    expect(deepEqualCheck<object>({ a: undefined }, {}, strict)).toBe(false);
+    expect(deepEqualCheck([, 1], [undefined, 1], strict)).toBe(false);
+    expect(deepEqualCheck([1, , 3], [1, , 3], strict)).toBe(true);
+  });
+
+  it('compares enumerable symbol keys and own properties of built-ins', () => {
+    const key = Symbol('key');
+    expect(deepEqualCheck({ [key]: 1 }, { [key]: 2 }, strict)).toBe(false);
+    const arrayWithProp = Object.assign([1], { extra: true });
+    expect(deepEqualCheck(arrayWithProp, [1], strict)).toBe(false);
+    expect(deepEqualCheck(Object.assign(new Date(0), { extra: 1 }), new Date(0), strict)).toBe(false);
+  });
+
+  it('compares errors like Node does', () => {
+    expect(deepEqualCheck(new TypeError('a'), new TypeError('b'), strict)).toBe(false);
+    const CausedError = Error as ErrorWithCauseConstructor;
+    expect(deepEqualCheck(new CausedError('a', { cause: 1 }), new CausedError('a', { cause: 2 }), strict)).toBe(false);
+    expect(deepEqualCheck(new AggregateError([1], 'm'), new AggregateError([2], 'm'), strict)).toBe(false);
+    const withStack = new Error('a');
+    withStack.stack = 'elsewhere';
+    expect(deepEqualCheck(withStack, new Error('a'), strict)).toBe(true);
+  });
+
+  it('compares boxed primitives and typed arrays by value and bytes', () => {
+    expect(deepEqualCheck(new Number(0), new Number(-0), strict)).toBe(false);
+    expect(deepEqualCheck(new String('a'), new String('a'), strict)).toBe(true);
+    expect(deepEqualCheck(new Float64Array([NaN]), new Float64Array([NaN]), strict)).toBe(true);
+    expect(deepEqualCheck(new Float64Array([0]), new Float64Array([-0]), strict)).toBe(false);
+    expect(deepEqualCheck(new DataView(new Uint8Array([1, 2]).buffer), new DataView(new Uint8Array([1, 3]).buffer), strict)).toBe(false);
+  });
+
+  it('compares shared references by structure', () => {
+    const shared = { v: 1 };
+    expect(deepEqualCheck([shared, shared], [{ v: 1 }, { v: 1 }], strict)).toBe(true);
+    expect(deepEqualCheck([{ v: 1 }, { v: 1 }], [shared, shared], strict)).toBe(true);
+  });
+
+  it('reports strict differences in deepDiff', () => {
+    expect(deepDiff({ a: 0, b: Object.create(null) }, { a: -0, b: {} }, strict)).toEqual([
+      { path: ['a'], kind: 'changed', a: 0, b: -0 },
+      { path: ['b'], kind: 'constructorMismatch', a: Object.create(null), b: {} },
+    ]);
+  });
+});
+
+describe("mode: 'loose'", () => {
+  it('uses == for primitives', () => {
+    expect(deepEqualCheck<unknown>({ a: '1', b: null, c: true }, { a: 1, b: undefined, c: 1 }, loose)).toBe(true);
+    expect(deepEqualCheck(0, -0, loose)).toBe(true);
+    expect(deepEqualCheck<unknown>({ a: 'x' }, { a: 1 }, loose)).toBe(false);
+    expect(deepEqualCheck<unknown>([1, 2], '1,2', loose)).toBe(false);
+  });
+
+  it('ignores prototypes and symbol keys but not type tags', () => {
+    expect(deepEqualCheck(Object.create(null), {}, loose)).toBe(true);
+    expect(deepEqualCheck(new Point(1), new Other('1'), loose)).toBe(true);
+    expect(deepEqualCheck({ [Symbol.for('k')]: 1 }, { [Symbol.for('k')]: 2 }, loose)).toBe(true);
+    expect(deepEqualCheck<unknown>([1], { 0: 1 }, loose)).toBe(false);
+    expect(deepEqualCheck<unknown>(new Date(0), {}, loose)).toBe(false);
+  });
+
+  it('treats missing keys and array holes as undefined', () => {
+    expect(deepEqualCheck<object>({ a: undefined, b: 1 }, { b: '1' }, loose)).toBe(true);
+    expect(deepEqualCheck<object>({ b: 1 }, { a: null, b: 1 }, loose)).toBe(true);
+    expect(deepEqualCheck<object>({ b: 1 }, { a: 0, b: 1 }, loose)).toBe(false);
+    expect(deepEqualCheck([, 1], [undefined, 1], loose)).toBe(true);
+    expect(deepEqualCheck<object>({ a: undefined }, {}, { ...loose, undefinedEqualsMissing: false })).toBe(false);
+  });
+
+  it('matches collection members loosely', () => {
+    expect(deepEqualCheck<unknown>(new Set([1, { a: 1 }]), new Set(['1', { a: '1' }]), loose)).toBe(true);
+    expect(deepEqualCheck<unknown>(new Map([[1, 1]]), new Map([['1', '1']]), loose)).toBe(true);
+    expect(deepEqualCheck<unknown>(new Set([1, 2]), new Set(['1', '1']), loose)).toBe(false);
+  });
+
+  it('compares float arrays element-wise', () => {
+    expect(deepEqualCheck(new Float64Array([0]), new Float64Array([-0]), loose)).toBe(true);
+    expect(deepEqualCheck(new Float64Array([NaN]), new Float64Array([NaN]), loose)).toBe(false);
+  });
+});
+
+const symbols = [Symbol('a'), Symbol.for('b')];
+const leaves = [0, -0, 1, '1', NaN, '', 'a', true, false, null, undefined, 1n, symbols[0]];
+const keys = ['a', 'b', 'c', symbols[0], symbols[1]];
+const constant = () => 1;
+
+/**
+ * Generator of the conformance corpus. Generating twice from the same
+ * seed gives two equal but separate values; replacing one random number along
+ * the way gives a value that differs somewhere (or, by chance, does not).
+ * Only values every supported Node version compares alike are generated: errors
+ * have no `cause` or `errors` (ignored before Node 20), regular expressions keep
+ * their `lastIndex` (ignored before Node 18) and there is a single function.
+ */
+function generate(random: () => number, depth = 3, created: object[] = []): unknown {
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+  const children = (count: number) =>
+    Array.from({ length: Math.floor(random() * count) }, () => generate(random, depth - 1, created));
+  const track = <T extends object>(value: T): T => {
+    created.push(value);
+    return value;
+  };
+
+  if (depth === 0 || random() < 0.35) return pick(leaves);
+
+  switch (Math.floor(random() * 17)) {
+    case 0: {
+      const array = track(children(4));
+      if (array.length !== 0 && random() < 0.3) delete array[Math.floor(random() * array.length)];
+      if (random() < 0.15) (array as any).extra = generate(random, 0);
+      return array;
+    }
+    case 1:
+    case 2: {
+      const object: Record<PropertyKey, unknown> = track(random() < 0.15 ? Object.create(null) : {});
+      for (const key of keys) {
+        if (random() < 0.5) continue;
+        if (random() < 0.15) {
+          Object.defineProperty(object, key, { value: generate(random, depth - 1, created), enumerable: false });
+        } else {
+          object[key as string] = generate(random, depth - 1, created);
+        }
+      }
+      return object;
+    }
+    case 3:
+      return track(new (random() < 0.8 ? Point : Other)(generate(random, depth - 1, created)));
+    case 4:
+      return track(new Date(pick([0, 1, NaN])));
+    case 5: {
+      const regex = pick([/a/, /a/g, /b/g]);
+      return track(new RegExp(regex.source, regex.flags));
+    }
+    case 6:
+    case 7: {
+      const error = new (pick([Error, TypeError, RangeError]))(pick(['x', 'y']));
+      if (random() < 0.2) (error as any).code = pick(['E1', 'E2']);
+      return track(error);
+    }
+    case 8:
+      return track(new Set(children(4)));
+    case 9: {
+      const entries = children(4).map(key => [key, generate(random, depth - 1, created)] as const);
+      return track(new Map(entries));
+    }
+    case 10: {
+      const values = Array.from({ length: Math.floor(random() * 3) }, () => pick([0, -0, 1, NaN, 255]));
+      return track(random() < 0.5 ? new Float64Array(values) : new Uint8Array(values));
+    }
+    case 11: {
+      const bytes = new Uint8Array(Array.from({ length: 4 }, () => pick([0, 1])));
+      return track(random() < 0.5 ? new DataView(bytes.buffer, pick([0, 1, 2])) : bytes.buffer);
+    }
+    case 12: {
+      const primitive = pick([0, -0, 1, 'a', 'b', true, 1n]);
+      return track(Object(primitive));
+    }
+    case 13:
+      // Shared reference to an object created earlier
+      return created.length === 0 ? pick(leaves) : pick(created);
+    case 14: {
+      // Circular reference back to itself
+      const node: Record<string, unknown> = track({ value: pick(leaves) });
+      node.self = node;
+      return node;
+    }
+    case 15: {
+      const args = (function (..._: unknown[]) {
+        return arguments;
+      })(...children(3));
+      return track(args);
+    }
+    default:
+      return pick([Point, constant, Symbol.iterator]);
+  }
+}
+
+/**
+ * Answer of a Node oracle, or undefined where it throws (as Node 22 does for some
+ * Sets holding null)
+ */
+function ask(oracle: (a: unknown, b: unknown) => boolean, a: unknown, b: unknown): boolean | undefined {
+  try {
+    return oracle(a, b);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Compares `options` against a Node oracle on the generated corpus, in both argument
+ * orders. Returns the first few disagreements and how many pairs the oracle found equal.
+ */
+function checkCorpus(oracle: (a: unknown, b: unknown) => boolean, options: DeepEqualOptions) {
+  const mismatches: string[] = [];
+  let equalPairs = 0;
+  for (let seed = 1; seed <= SEEDS; seed++) {
+    const a = generate(createRandom(seed));
+    const b = generate(createRandom(seed, seed % 3 === 0 ? -1 : seed % 12));
+    const expected = ask(oracle, a, b);
+    // Node only checks B's symbol keys when the symbol counts differ, which makes
+    // it order-dependent for non-enumerable symbols; such pairs have no single answer
+    if (expected === undefined || expected !== ask(oracle, b, a)) continue;
+    if (expected) equalPairs++;
+    if (deepEqualCheck(a, b, options) !== expected || deepEqualCheck(b, a, options) !== expected) {
+      mismatches.push(`seed ${seed}: expected ${expected} for ${inspect(a, { depth: 6 })} vs ${inspect(b, { depth: 6 })}`);
+    }
+  }
+  return { mismatches: mismatches.slice(0, 5), equalPairs };
+}
+
+describe('conformance with node:assert', () => {
+  it('matches util.isDeepStrictEqual in strict mode', () => {
+    const { mismatches, equalPairs } = checkCorpus(isDeepStrictEqual, strict);
+    expect(mismatches).toEqual([]);
+    // Make sure the corpus exercises both outcomes
+    expect(equalPairs).toBeGreaterThan(SEEDS / 3);
+    expect(equalPairs).toBeLessThan(SEEDS * 0.8);
+  });
+
+  it('matches assert.deepEqual in loose mode, apart from missing keys', () => {
+    const isDeepEqual = (a: unknown, b: unknown) => {
+      try {
+        assert.deepEqual(a, b);
+        return true;
+      } catch {
+        return false;
+      }
+    };
+    const { mismatches, equalPairs } = checkCorpus(isDeepEqual, { ...loose, undefinedEqualsMissing: false });
+    expect(mismatches).toEqual([]);
+    expect(equalPairs).toBeGreaterThan(SEEDS / 3);
+    expect(equalPairs).toBeLessThan(SEEDS * 0.9);
+  });
+});
@@ -0,0 +1,117 @@
+import { AssertionError, assertDeepEqual } from './index';
+
+const failure = (actual: unknown, expected: unknown, ...rest: [object?, (string | Error)?]): AssertionError => {
+  try {
+    assertDeepEqual(actual, expected, ...rest);
+  } catch (error) {
+    return error as AssertionError;
+  }
+  throw new Error('assertDeepEqual did not throw');
+};
+
+const messageOf = (actual: unknown, expected: unknown, options?: object) => failure(actual, expected, options).message;
+
+describe('assertDeepEqual', () => {
+  it('returns for deep-equal values', () => {
+    expect(() => assertDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).not.toThrow();
+    expect(() => assertDeepEqual(new Map([[1, new Set([2])]]), new Map([[1, new Set([2])]]))).not.toThrow();
+  });
+
+  it('throws an AssertionError with the fields of Node assertion errors', () => {
+    const actual = { a: 1 };
+    const expected = { a: 2 };
+    const error = failure(actual, expected);
+    expect(error).toBeInstanceOf(AssertionError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({ name: 'AssertionError', code: 'ERR_ASSERTION', operator: 'deepEqual', generatedMessage: true });
+    expect(error.actual).toBe(actual);
+    expect(error.expected).toBe(expected);
+    expect(failure(1, 2, { mode: 'strict' }).operator).toBe('deepStrictEqual');
+  });
+
+  it('shows a line diff of the two values', () => {
+    expect(messageOf({ a: 1, b: [1, 2] }, { a: 1, b: [1, 3] })).toBe([
+      'Expected values to be deep-equal:',
+      '+ actual - expected',
+      '',
+      '  {',
+      '    a: 1,',
+      '    b: [',
+      '      1,',
+      '+     2,',
+      '-     3,',
+      '    ],',
+      '  }',
+    ].join('\n'));
+    expect(messageOf('a', 'b', { mode: 'strict' })).toBe([
+      'Expected values to be strictly deep-equal:',
+      '+ actual - expected',
+      '',
+      "+ 'a'",
+      "- 'b'",
+    ].join('\n'));
+  });
+
+  it('renders built-in types', () => {
+    expect(messageOf(new Map([['k', new Set([1, 2])]]), new Map([['k', new Set([1, 3])]])))
+      .toContain("  Map(1) {\n    'k' => Set(2) {\n      1,\n+     2,\n-     3,");
+    expect(messageOf(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toContain('  Uint8Array(2) [\n    1,\n+   2,\n-   3,');
+    expect(messageOf({ at: new Date(0) }, { at: new Date(1) }))
+      .toContain("+   at: 1970-01-01T00:00:00.000Z,\n-   at: 1970-01-01T00:00:00.001Z,");
+    expect(messageOf({ re: /a/g }, { re: /a/i })).toContain('+   re: /a/g,\n-   re: /a/i,');
+    expect(messageOf({ n: Object(1) }, { n: Object(2) })).toContain('+   n: [Number: 1],\n-   n: [Number: 2],');
+    expect(messageOf([1, , 3], [1, undefined, 3], { mode: 'strict' })).toContain('+   <empty>,\n-   undefined,');
+  });
+
+  it('marks circular references', () => {
+    const actual: Record<string, unknown> = { v: 1 };
+    actual.self = actual;
+    const expected: Record<string, unknown> = { v: 2 };
+    expected.self = expected;
+    const message = messageOf(actual, expected);
+    expect(message).toContain('<ref *1> {');
+    expect(message).toContain('self: [Circular *1],');
+    expect(message).toContain('+   v: 1,\n-   v: 2,');
+  });
+
+  it('shows large values only around their first difference', () => {
+    const actual = Array.from({ length: 10000 }, (_, id) => ({ id }));
+    const expected = Array.from({ length: 10000 }, (_, id) => ({ id: id === 5000 ? -1 : id }));
+    const message = messageOf(actual, expected);
+    expect(message).toContain('+     id: 5000,\n-     id: -1,');
+    expect(message).not.toContain('id: 4000,');
+    expect(message.split('\n').length).toBeLessThan(100);
+  });
+
+  it('renders deeply nested values from close to their first difference', () => {
+    const nest = (levels: number, leaf: unknown) => {
+      let value = leaf;
+      for (let i = 0; i < levels; i++) value = { x: value };
+      return value;
+    };
+    const message = messageOf(nest(1000, 1), nest(1000, 2));
+    expect(message).toContain('(showing the values at x.x.x.x<');
+    expect(message).toMatch(/\+ +x: 1,\n- +x: 2,/);
+    expect(message.split('\n').length).toBeLessThan(50);
+  });
+
+  it('compares with the options of deepEqualCheck', () => {
+    expect(() => assertDeepEqual({ a: 1, at: 1 }, { a: 1, at: 2 }, { ignorePaths: ['at'] })).not.toThrow();
+    expect(() => assertDeepEqual([1, 2], ['1', '2'], { mode: 'loose' })).not.toThrow();
+    expect(messageOf([1], ['1'], { mode: 'strict' })).toContain("+   1,\n-   '1',");
+  });
+
+  it('uses a message or an error passed in', () => {
+    const error = failure({ a: 1 }, { a: 2 }, {}, 'user should match');
+    expect(error).toMatchObject({ message: 'user should match', generatedMessage: false });
+    const custom = new RangeError('custom');
+    expect(failure(1, 2, {}, custom)).toBe(custom);
+  });
+
+  it('says when a limit left the comparison undecided', () => {
+    const wide = () => Array.from({ length: 100 }, (_, id) => ({ id }));
+    const message = messageOf(wide(), wide(), { maxNodes: 50 });
+    expect(message).toMatch(/^Expected values to be deep-equal, but maxNodes was reached at \[\d+\]\.id before any difference was found:/);
+    expect(message).not.toContain('+ actual - expected');
+  });
+});
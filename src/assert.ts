@@ -0,0 +1,245 @@
+import { deepEqualDetailed } from './detailed';
+import { resolveOptions } from './options';
+import { renderLines, renderPath } from './render';
+import type { DeepEqualOptions, PathSegment } from './types';
+
+/** Unchanged lines shown around each changed one */
+const CONTEXT_LINES = 3;
+
+/** Lines of diff shown before the rest is left out */
+const MAX_DIFF_LINES = 200;
+
+/** Levels above the first difference rendered; values nested deeper are rendered from below the root */
+const MAX_PATH_LEVELS = 10;
+
+/** Lines compared pairwise at most when aligning two renderings */
+const MAX_ALIGNED_CELLS = 4_000_000;
+
+/**
+ * Thrown by `assertDeepEqual`. Has the fields of Node's `assert.AssertionError`,
+ * so test runners show it like a failed `assert.deepStrictEqual`.
+ */
+export class AssertionError extends Error {
+  readonly code = 'ERR_ASSERTION';
+  readonly actual: unknown;
+  readonly expected: unknown;
+  readonly operator: string;
+  /** Whether the message was written by `assertDeepEqual` rather than passed in */
+  generatedMessage: boolean;
+
+  constructor(options: { message?: string; actual: unknown; expected: unknown; operator: string }) {
+    super(options.message ?? `${String(options.actual)} ${options.operator} ${String(options.expected)}`);
+    this.name = 'AssertionError';
+    this.actual = options.actual;
+    this.expected = options.expected;
+    this.operator = options.operator;
+    this.generatedMessage = options.message === undefined;
+  }
+}
+
+/**
+ * Asserts deep equality, with the semantics and options of `deepEqualCheck`
+ *
+ * Throws an `AssertionError` whose message holds a line diff of the two values,
+ * cut down around their first difference when they are large.
+ *
+ * @param actual - Value under test
+ * @param expected - Expected value
+ * @param options - Comparison options (same as `deepEqualCheck`)
+ * @param message - Message replacing the generated one, or an error to throw instead
+ *
+ * @example
+ * ```typescript
+ * import { assertDeepEqual } from 'deep-equal-check';
+ *
+ * assertDeepEqual({ a: 1, b: [1, 2] }, { a: 1, b: [1, 3] });
+ * // AssertionError: Expected values to be deep-equal:
+ * // + actual - expected
+ * //
+ * //   {
+ * //     a: 1,
+ * //     b: [
+ * //       1,
+ * // +     2,
+ * // -     3,
+ * //     ],
+ * //   }
+ * ```
+ */
+export function assertDeepEqual<T>(
+  actual: unknown,
+  expected: T,
+  options: DeepEqualOptions = {},
+  message?: string | Error
+): asserts actual is T {
+  const result = deepEqualDetailed(actual, expected, options);
+  if (result.equal === true) return;
+  if (message instanceof Error) throw message;
+
+  const error = new AssertionError({
+    message: message ?? describeFailure(actual, expected, result.equal === false, result.reason!, result.path, options),
+    actual,
+    expected,
+    operator: options.mode === 'strict' ? 'deepStrictEqual' : 'deepEqual',
+  });
+  error.generatedMessage = message === undefined;
+  throw error;
+}
+
+function describeFailure(
+  actual: unknown,
+  expected: unknown,
+  decided: boolean,
+  reason: string,
+  path: PathSegment[],
+  options: DeepEqualOptions
+): string {
+  const { root, actualRoot, expectedRoot } = renderRoot(actual, expected, path);
+  const focus = path.slice(root);
+  const resolved = resolveOptions(options);
+  const actualLines = renderLines(actualRoot, focus, resolved);
+  const expectedLines = renderLines(expectedRoot, focus, resolved);
+
+  const at = path.length === 0 ? 'the root' : renderPath(path);
+  let header = options.mode === 'strict'
+    ? 'Expected values to be strictly deep-equal'
+    : options.mode === 'loose' ? 'Expected values to be loosely deep-equal' : 'Expected values to be deep-equal';
+  if (!decided) header += `, but ${reason} was reached at ${at} before any difference was found`;
+  const shown = root === 0 ? '' : `\n(showing the values at ${renderPath(path.slice(0, root))})`;
+
+  if (actualLines.join('\n') === expectedLines.join('\n')) {
+    if (decided) header += `, but they differ at ${at} (${reason}) in a way not shown`;
+    return `${header}:${shown}\n\n${actualLines.map(line => `  ${line}`).join('\n')}`;
+  }
+  return `${header}:${shown}\n+ actual - expected\n\n${unifiedDiff(actualLines, expectedLines).join('\n')}`;
+}
+
+/**
+ * Level from which both values are rendered: close enough to the first
+ * difference that deep values render in full along the path to it
+ */
+function renderRoot(actual: unknown, expected: unknown, path: PathSegment[]) {
+  let actualRoot = actual;
+  let expectedRoot = expected;
+  let root = 0;
+  for (; root < path.length - MAX_PATH_LEVELS; root++) {
+    const actualChild = childAt(actualRoot, path[root]);
+    const expectedChild = childAt(expectedRoot, path[root]);
+    if (actualChild === MISSING || expectedChild === MISSING) break;
+    actualRoot = actualChild;
+    expectedRoot = expectedChild;
+  }
+  return { root, actualRoot, expectedRoot };
+}
+
+const MISSING: unique symbol = Symbol('missing');
+
+function childAt(value: unknown, segment: PathSegment): unknown {
+  if (typeof value !== 'object' || value === null) return MISSING;
+  if (value instanceof Map) {
+    return typeof segment === 'object' && segment.kind === 'map-key' && value.has(segment.key)
+      ? value.get(segment.key)
+      : MISSING;
+  }
+  if (value instanceof Set) {
+    return typeof segment === 'object' && segment.kind === 'set-entry' && value.has(segment.value)
+      ? segment.value
+      : MISSING;
+  }
+  if (typeof segment === 'object' || !Object.prototype.hasOwnProperty.call(value, segment)) return MISSING;
+  return (value as Record<PropertyKey, unknown>)[segment];
+}
+
+/**
+ * Lines of a unified diff of two renderings: lines only in `actual` marked `+`,
+ * lines only in `expected` marked `-`, and runs of unchanged lines away from
+ * any change replaced by `...`
+ */
+function unifiedDiff(actual: string[], expected: string[]): string[] {
+  const marked = alignLines(actual, expected);
+  const shown = new Uint8Array(marked.length);
+  for (let i = 0; i < marked.length; i++) {
+    if (marked[i][0] === ' ') continue;
+    for (let j = Math.max(0, i - CONTEXT_LINES); j <= Math.min(marked.length - 1, i + CONTEXT_LINES); j++) shown[j] = 1;
+  }
+  // A single hidden line takes as much room as the `...` replacing it
+  for (let i = 0; i < marked.length; i++) {
+    if (!shown[i] && (i === 0 || shown[i - 1]) && (i === marked.length - 1 || shown[i + 1])) shown[i] = 1;
+  }
+
+  const lines: string[] = [];
+  for (let i = 0; i < marked.length; i++) {
+    if (shown[i]) {
+      lines.push(`${marked[i][0]} ${marked[i][1]}`);
+    } else if (i === 0 || shown[i - 1]) {
+      lines.push('...');
+    }
+    if (lines.length === MAX_DIFF_LINES && i < marked.length - 1) {
+      lines.push(`... ${marked.length - 1 - i} more lines`);
+      break;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Aligns two renderings along their longest common subsequence of lines,
+ * listing the lines of each change in `actual` before those in `expected`
+ */
+function alignLines(actual: string[], expected: string[]): Array<[' ' | '+' | '-', string]> {
+  let start = 0;
+  while (start < actual.length && start < expected.length && actual[start] === expected[start]) start++;
+  let endA = actual.length;
+  let endB = expected.length;
+  while (endA > start && endB > start && actual[endA - 1] === expected[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const marked: Array<[' ' | '+' | '-', string]> = [];
+  for (let i = 0; i < start; i++) marked.push([' ', actual[i]]);
+
+  const rows = endA - start;
+  const columns = endB - start;
+  const width = columns + 1;
+  // Common lines from each pair of positions on, by dynamic programming; too large a middle is shown as replaced whole
+  const common = (rows + 1) * width <= MAX_ALIGNED_CELLS ? new Uint32Array((rows + 1) * width) : null;
+  if (common !== null) {
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        common[i * width + j] = actual[start + i] === expected[start + j]
+          ? common[(i + 1) * width + j + 1] + 1
+          : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+      }
+    }
+  }
+
+  const added: string[] = [];
+  const removed: string[] = [];
+  const flush = () => {
+    for (const line of added) marked.push(['+', line]);
+    for (const line of removed) marked.push(['-', line]);
+    added.length = 0;
+    removed.length = 0;
+  };
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < columns) {
+    if (common !== null && i < rows && j < columns && actual[start + i] === expected[start + j]) {
+      flush();
+      marked.push([' ', actual[start + i]]);
+      i++;
+      j++;
+    } else if (j === columns || i < rows && (common === null || common[(i + 1) * width + j] >= common[i * width + j + 1])) {
+      added.push(actual[start + i]);
+      i++;
+    } else {
+      removed.push(expected[start + j]);
+      j++;
+    }
+  }
+  flush();
+
+  for (let k = endA; k < actual.length; k++) marked.push([' ', actual[k]]);
+  return marked;
+}
@@ -0,0 +1,84 @@
+import { deepDiff, deepEqualCheck } from './index';
+
+class Decimal {
+  constructor(readonly digits: string, readonly note = '') {}
+
+  valueOf(): string {
+    return this.digits;
+  }
+}
+
+class Cents {
+  constructor(readonly digits: string) {}
+
+  valueOf(): string {
+    return this.digits;
+  }
+}
+
+describe('boxed primitives', () => {
+  it('checks that both sides box the same primitive type', () => {
+    expect(deepEqualCheck<unknown>(new Number(1), { valueOf: () => 1 })).toBe(false);
+    expect(deepEqualCheck<unknown>(new String('1'), new Number(1))).toBe(false);
+    expect(deepEqualCheck<unknown>(new Number(1), 1)).toBe(false);
+    expect(deepEqualDiffKind(new Number(1), new String('1'))).toBe('typeMismatch');
+  });
+
+  it('honours nanEqual and strictZero', () => {
+    expect(deepEqualCheck(new Number(NaN), new Number(NaN))).toBe(true);
+    expect(deepEqualCheck(new Number(NaN), new Number(NaN), { nanEqual: false })).toBe(false);
+    expect(deepEqualCheck(new Number(0), new Number(-0))).toBe(true);
+    expect(deepEqualCheck(new Number(0), new Number(-0), { strictZero: true })).toBe(false);
+  });
+
+  it('is not fooled by a Symbol.toStringTag', () => {
+    const fake = { [Symbol.toStringTag]: 'Number', value: 1 };
+    expect(deepEqualCheck<object>(fake, { [Symbol.toStringTag]: 'Number', value: 1 })).toBe(true);
+    expect(deepEqualCheck<object>(fake, new Number(1))).toBe(false);
+    expect(deepEqualCheck(new Set<object>([fake, new Number(1)]), new Set<object>([new Number(1), { ...fake }]))).toBe(true);
+  });
+
+  it('compares objects without a prototype', () => {
+    const bare = (value: number) => Object.assign(Object.create(null), { value });
+    expect(deepEqualCheck(bare(1), bare(1))).toBe(true);
+    expect(deepEqualCheck(bare(1), bare(2))).toBe(false);
+  });
+});
+
+describe('classes defining valueOf', () => {
+  it('compare by their properties by default', () => {
+    expect(deepEqualCheck(new Decimal('1.5', 'a'), new Decimal('1.5', 'b'))).toBe(false);
+    expect(deepEqualCheck(new Decimal('1.5'), new Decimal('1.5'))).toBe(true);
+    expect(deepEqualCheck<object>(new Cents('1.5'), { digits: '1.5' })).toBe(true);
+  });
+
+  it('compare by valueOf() with useValueOf', () => {
+    const options = { useValueOf: true };
+    expect(deepEqualCheck(new Decimal('1.5', 'a'), new Decimal('1.5', 'b'), options)).toBe(true);
+    expect(deepEqualCheck(new Decimal('1.5'), new Decimal('2.5'), options)).toBe(false);
+    expect(deepEqualCheck(new Date(1), new Date(2), options)).toBe(false);
+    expect(deepEqualCheck(new Set([new Decimal('1', 'a')]), new Set([new Decimal('1', 'b')]), options)).toBe(true);
+  });
+
+  it('require the same constructor with useValueOf', () => {
+    expect(deepEqualCheck<object>(new Decimal('1.5'), new Cents('1.5'), { useValueOf: true })).toBe(false);
+    expect(deepEqualCheck<object>(new Cents('1.5'), { digits: '1.5' }, { useValueOf: true })).toBe(false);
+    expect(deepEqualCheck<object>({ digits: '1.5' }, new Cents('1.5'), { useValueOf: true })).toBe(false);
+    expect(deepEqualDiffKind(new Decimal('1.5'), new Cents('1.5'), { useValueOf: true })).toBe('constructorMismatch');
+  });
+
+  it('fall back to their properties when valueOf() returns an object', () => {
+    class Wrapper {
+      constructor(readonly id: number) {}
+      valueOf(): object {
+        return this;
+      }
+    }
+    expect(deepEqualCheck(new Wrapper(1), new Wrapper(1), { useValueOf: true })).toBe(true);
+    expect(deepEqualCheck(new Wrapper(1), new Wrapper(2), { useValueOf: true })).toBe(false);
+  });
+});
+
+function deepEqualDiffKind(a: unknown, b: unknown, options = {}): string | undefined {
+  return deepDiff(a, b, options)[0]?.kind;
+}
@@ -0,0 +1,41 @@
+/**
+ * Detection of boxed primitives (`new Number(1)`, `Object(1n)`, ...) by type tag
+ * and internal slot, and of classes converting themselves to a primitive
+ */
+
+const objectToString = Object.prototype.toString;
+
+/** `valueOf` of each boxed primitive type, keyed by type tag */
+const BOXED_VALUE_OF: Record<string, (this: unknown) => unknown> = {
+  '[object Number]': Number.prototype.valueOf,
+  '[object String]': String.prototype.valueOf,
+  '[object Boolean]': Boolean.prototype.valueOf,
+  '[object BigInt]': BigInt.prototype.valueOf,
+  '[object Symbol]': Symbol.prototype.valueOf,
+};
+
+/** Returned by `unbox` for values that are not boxed primitives */
+export const NOT_BOXED: unique symbol = Symbol('not boxed');
+
+/**
+ * The primitive wrapped by a boxed String, Number, Boolean, BigInt or Symbol, or
+ * NOT_BOXED. Objects merely claiming such a tag through `Symbol.toStringTag` lack
+ * the internal slot, so the built-in `valueOf` throws for them.
+ */
+export function unbox(value: object, tag: string = objectToString.call(value)): unknown {
+  if (!Object.prototype.hasOwnProperty.call(BOXED_VALUE_OF, tag)) return NOT_BOXED;
+  try {
+    return BOXED_VALUE_OF[tag].call(value);
+  } catch {
+    return NOT_BOXED;
+  }
+}
+
+/**
+ * Whether the value has a `valueOf` of its own class (Decimal-like, Moment-like)
+ * rather than the one inherited from Object.prototype
+ */
+export function definesValueOf(value: object): boolean {
+  const valueOf = (value as { valueOf?: unknown }).valueOf;
+  return typeof valueOf === 'function' && valueOf !== Object.prototype.valueOf;
+}
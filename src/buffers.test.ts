@@ -0,0 +1,101 @@
+import { deepDiff, deepEqualCheck } from './index';
+
+function bytes(...values: number[]): ArrayBuffer {
+  return new Uint8Array(values).buffer;
+}
+
+describe('binary data', () => {
+  it('compares DataViews over their own byte range', () => {
+    const buffer = bytes(9, 1, 2, 3, 9);
+    const other = bytes(7, 7, 1, 2, 3);
+    expect(deepEqualCheck(new DataView(buffer, 1, 3), new DataView(other, 2, 3))).toBe(true);
+    expect(deepEqualCheck(new DataView(buffer, 0, 3), new DataView(other, 0, 3))).toBe(false);
+    expect(deepEqualCheck(new DataView(buffer, 1, 3), new DataView(other, 2))).toBe(true);
+    expect(deepEqualCheck(new DataView(buffer, 1, 2), new DataView(other, 2, 3))).toBe(false);
+  });
+
+  it('compares TypedArray views at an offset by their own elements', () => {
+    const a = new Uint8Array(bytes(0, 1, 2, 3), 1);
+    const b = new Uint8Array(bytes(1, 2, 3));
+    expect(deepEqualCheck(a, b)).toBe(true);
+  });
+
+  it('compares SharedArrayBuffers by contents', () => {
+    const shared = (...values: number[]) => {
+      const buffer = new SharedArrayBuffer(values.length);
+      new Uint8Array(buffer).set(values);
+      return buffer;
+    };
+    expect(deepEqualCheck(shared(1, 2), shared(1, 2))).toBe(true);
+    expect(deepEqualCheck(shared(1, 2), shared(1, 3))).toBe(false);
+    expect(deepEqualCheck(shared(1, 2), shared(1, 2, 3))).toBe(false);
+    expect(deepEqualCheck<unknown>(shared(1, 2), bytes(1, 2))).toBe(false);
+  });
+
+  it('compares Buffers and keeps them distinct from Uint8Arrays', () => {
+    expect(deepEqualCheck(Buffer.from('hello'), Buffer.from('hello'))).toBe(true);
+    expect(deepEqualCheck(Buffer.from('hello'), Buffer.from('hullo'))).toBe(false);
+    // Small Buffers are slices of a shared pool at arbitrary offsets
+    expect(deepEqualCheck(Buffer.from('hello').subarray(1), Buffer.from('ello'))).toBe(true);
+    expect(deepEqualCheck<Uint8Array>(Buffer.from('hi'), new Uint8Array([104, 105]))).toBe(false);
+  });
+
+  it('compares large buffers at any alignment', () => {
+    const source = new Uint8Array(1029).map((_, i) => i * 7);
+    for (const offset of [0, 1, 4]) {
+      const a = source.slice(offset);
+      const b = new Uint8Array(new ArrayBuffer(a.length + 3), 3, a.length);
+      b.set(a);
+      expect(deepEqualCheck(a, new Uint8Array(a))).toBe(true);
+      expect(deepEqualCheck(a, b)).toBe(true);
+      b[b.length - 1] ^= 1;
+      expect(deepEqualCheck(a, b)).toBe(false);
+      b[b.length - 1] ^= 1;
+      b[10] ^= 1;
+      expect(deepEqualCheck(a, b)).toBe(false);
+    }
+  });
+
+  it('does not compare bytes of float arrays', () => {
+    expect(deepEqualCheck(new Float64Array([0]), new Float64Array([-0]))).toBe(true);
+    expect(deepEqualCheck(new Float64Array([NaN]), new Float64Array([-NaN]))).toBe(true);
+    expect(deepEqualCheck(new Float64Array([NaN]), new Float64Array([NaN]), { nanEqual: false })).toBe(false);
+  });
+
+  it('reports element differences of TypedArrays', () => {
+    expect(deepDiff(new Int16Array([1, 2, 3]), new Int16Array([1, 5, 3]))).toEqual([
+      { path: [1], kind: 'changed', a: 2, b: 5 },
+    ]);
+  });
+});
+
+describe('compareBufferBytes', () => {
+  it('equates binary values of different types holding the same bytes', () => {
+    const options = { compareBufferBytes: true };
+    expect(deepEqualCheck<unknown>(new Uint8Array([1, 2]), Buffer.from([1, 2]), options)).toBe(true);
+    expect(deepEqualCheck<unknown>(new Uint8Array([1, 2]), bytes(1, 2), options)).toBe(true);
+    expect(deepEqualCheck<unknown>(new DataView(bytes(0, 1, 2), 1), new Uint8Array([1, 2]), options)).toBe(true);
+    expect(deepEqualCheck<unknown>(new Uint8Array([1, 2]), bytes(1, 2, 3), options)).toBe(false);
+    expect(deepEqualCheck<unknown>(new Uint8Array([1, 2]), [1, 2], options)).toBe(false);
+  });
+
+  it('applies in strict mode', () => {
+    expect(deepEqualCheck<unknown>(Buffer.from([1, 2]), bytes(1, 2), { mode: 'strict', compareBufferBytes: true })).toBe(true);
+    expect(deepEqualCheck<unknown>(Buffer.from([1, 2]), bytes(1, 2), { mode: 'strict' })).toBe(false);
+  });
+
+  it('finds byte-equal buffers in Sets', () => {
+    const a = new Set<unknown>([Buffer.from([1]), Buffer.from([2])]);
+    const b = new Set<unknown>([new Uint8Array([2]), bytes(1)]);
+    expect(deepEqualCheck(a, b, { compareBufferBytes: true })).toBe(true);
+    expect(deepEqualCheck(a, b)).toBe(false);
+  });
+
+  it('reports the whole value when bytes differ', () => {
+    const a = new Uint8Array([1, 2]);
+    const b = Buffer.from([1, 3]);
+    expect(deepDiff<unknown>(a, b, { compareBufferBytes: true })).toEqual([
+      { path: [], kind: 'changed', a, b },
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { deepDiff, deepEqualCheck } from './index';
+
+// Not part of the ES2020 typings the library is compiled against
+const WeakRef = (globalThis as any).WeakRef as new (target: object) => object;
+// Fetch globals arrived in Node 18
+const withFetch = typeof Headers === 'function' ? it : it.skip;
+
+describe('built-in types', () => {
+  it('compares URLs by href', () => {
+    expect(deepEqualCheck(new URL('https://example.com/a?x=1'), new URL('https://example.com/a?x=1'))).toBe(true);
+    expect(deepEqualCheck(new URL('https://example.com/a'), new URL('https://example.com/b'))).toBe(false);
+    expect(deepEqualCheck(new URL('HTTPS://example.com'), new URL('https://example.com/'))).toBe(true);
+    expect(deepEqualCheck({ url: new URL('https://a.test') }, { url: new URL('https://b.test') }, { mode: 'strict' })).toBe(false);
+    expect(deepEqualCheck<object>(new URL('https://a.test'), { href: 'https://a.test/' })).toBe(false);
+  });
+
+  it('compares URLSearchParams entry by entry', () => {
+    expect(deepEqualCheck(new URLSearchParams('a=1&b=2'), new URLSearchParams('a=1&b=2'))).toBe(true);
+    expect(deepEqualCheck(new URLSearchParams('a=1&b=2'), new URLSearchParams('a=1&b=3'))).toBe(false);
+    expect(deepEqualCheck(new URLSearchParams('a=1&a=2'), new URLSearchParams('a=1'))).toBe(false);
+    expect(deepEqualCheck(new URLSearchParams('a=1&b=2'), new URLSearchParams('b=2&a=1'))).toBe(false);
+  });
+
+  withFetch('compares Headers and FormData by their entries', () => {
+    expect(deepEqualCheck(new Headers({ 'X-A': '1', b: '2' }), new Headers({ b: '2', 'x-a': '1' }))).toBe(true);
+    expect(deepEqualCheck(new Headers({ a: '1' }), new Headers({ a: '2' }))).toBe(false);
+
+    const form = (...pairs: Array<[string, string]>) => {
+      const data = new FormData();
+      for (const [name, value] of pairs) data.append(name, value);
+      return data;
+    };
+    expect(deepEqualCheck(form(['a', '1'], ['a', '2']), form(['a', '1'], ['a', '2']))).toBe(true);
+    expect(deepEqualCheck(form(['a', '1']), form(['a', '1'], ['b', '2']))).toBe(false);
+    expect(deepEqualCheck<object>(new Headers({ a: '1' }), new URLSearchParams('a=1'))).toBe(false);
+  });
+
+  it('compares Temporal values with their own equals', () => {
+    // Stand-in following the Temporal proposal: a type tag and an equals method
+    class PlainDate {
+      readonly [Symbol.toStringTag] = 'Temporal.PlainDate';
+      constructor(readonly iso: string, readonly calendar = 'iso8601') {}
+      equals(other: PlainDate): boolean {
+        return this.iso === other.iso && this.calendar === other.calendar;
+      }
+      valueOf(): never {
+        throw new TypeError('use compare() or equals() to compare Temporal.PlainDate');
+      }
+    }
+    expect(deepEqualCheck(new PlainDate('2024-01-01'), new PlainDate('2024-01-01'))).toBe(true);
+    expect(deepEqualCheck(new PlainDate('2024-01-01'), new PlainDate('2024-01-02'))).toBe(false);
+    expect(deepEqualCheck(new PlainDate('2024-01-01'), new PlainDate('2024-01-01', 'gregory'))).toBe(false);
+  });
+
+  it('compares boxed BigInts and Symbols by their primitive', () => {
+    const symbol = Symbol('s');
+    expect(deepEqualCheck(Object(1n), Object(1n))).toBe(true);
+    expect(deepEqualCheck(Object(1n), Object(2n))).toBe(false);
+    expect(deepEqualCheck(Object(1n), Object(1))).toBe(false);
+    expect(deepEqualCheck(Object(symbol), Object(symbol))).toBe(true);
+    expect(deepEqualCheck(Object(symbol), Object(Symbol('s')))).toBe(false);
+    expect(deepEqualCheck(Object(symbol), Object(symbol), { mode: 'strict' })).toBe(true);
+  });
+
+  it('compares weak collections, WeakRefs, Promises and functions by identity', () => {
+    const target = {};
+    const promise = Promise.resolve(1);
+    const fn = () => 1;
+    expect(deepEqualCheck(new WeakMap(), new WeakMap())).toBe(false);
+    expect(deepEqualCheck(new WeakSet(), new WeakSet())).toBe(false);
+    expect(deepEqualCheck(new WeakRef(target), new WeakRef(target))).toBe(false);
+    expect(deepEqualCheck(Promise.resolve(1), Promise.resolve(1))).toBe(false);
+    expect(deepEqualCheck(() => 1, () => 1)).toBe(false);
+    expect(deepEqualCheck({ promise, fn }, { promise, fn })).toBe(true);
+    expect(deepEqualCheck(new WeakMap(), new WeakMap(), { mode: 'strict' })).toBe(false);
+    expect(deepEqualCheck(Promise.resolve(1), Promise.resolve(2), { mode: 'loose' })).toBe(false);
+  });
+
+  it('reports built-in differences at their path', () => {
+    expect(deepDiff(new URLSearchParams('a=1&b=2'), new URLSearchParams('a=1&b=3'))).toEqual([
+      { path: [1, 1], kind: 'changed', a: '2', b: '3' },
+    ]);
+    const a = new URL('https://a.test');
+    const b = new URL('https://b.test');
+    expect(deepDiff({ url: a }, { url: b })).toEqual([{ path: ['url'], kind: 'changed', a, b }]);
+  });
+});
@@ -0,0 +1,202 @@
+import {
+  any,
+  anyShape,
+  arrayShape,
+  compileEqual,
+  deepEqualCheck,
+  inferShape,
+  objectShape,
+  primitiveShape,
+  SHAPE,
+} from './index';
+import type { DeepEqualOptions, ShapeDescriptor } from './index';
+
+const sample = { id: 1, name: 'Ann', tags: ['a'], address: { city: 'Oslo', zip: 150 } };
+const user = (overrides: Record<string, unknown> = {}) =>
+  ({ id: 1, name: 'Ann', tags: ['a', 'b'], address: { city: 'Oslo', zip: 150 }, ...overrides });
+
+class Point {
+  constructor(public x: number, public y: number) {}
+}
+
+const pairs: Array<[unknown, unknown]> = [
+  [user(), user()],
+  [user(), user({ name: 'Bob' })],
+  [user(), user({ tags: ['a'] })],
+  [user(), user({ address: { city: 'Oslo', zip: 151 } })],
+  [user(), user({ address: { city: 'Oslo' } })],
+  [user(), { ...user(), extra: true }],
+  [user({ id: NaN }), user({ id: NaN })],
+  [user({ id: 0 }), user({ id: -0 })],
+  [user({ name: new Date(0) }), user({ name: new Date(0) })],
+  [user({ name: new Date(0) }), user({ name: new Date(1) })],
+  [user({ address: new Point(1, 2) }), user({ address: new Point(1, 2) })],
+  [user({ address: new Point(1, 2) }), user({ address: { x: 1, y: 2 } })],
+  [user({ tags: 'a' }), user({ tags: ['a'] })],
+  [user({ tags: [{ deep: [1] }] }), user({ tags: [{ deep: [1] }] })],
+  [user({ id: undefined }), { name: 'Ann', tags: ['a', 'b'], address: { city: 'Oslo', zip: 150 }, other: undefined }],
+  [null, user()],
+  [[user()], [user()]],
+  [1, 1],
+  // Equal values of a shape other than the sample's
+  [{ b: 1 }, { b: 1 }],
+  [user({ address: { street: 'Main' } }), user({ address: { street: 'Main' } })],
+  [{ ...user(), extra: [1] }, { ...user(), extra: [1] }],
+  [[{ other: true }], [{ other: true }]],
+];
+
+describe('compileEqual', () => {
+  it('compares like deepEqualCheck', () => {
+    const optionSets: DeepEqualOptions[] = [{}, { nanEqual: true }, { strictZero: true }, { checkPrototypes: true }];
+    for (const options of optionSets) {
+      const equal = compileEqual(sample, options);
+      for (const [a, b] of pairs) {
+        expect(equal(a, b)).toBe(deepEqualCheck(a, b, options));
+      }
+    }
+  });
+
+  it('compares like deepEqualCheck with options the generated code does not cover', () => {
+    const optionSets: DeepEqualOptions[] = [
+      { mode: 'strict' },
+      { ignorePaths: ['**.zip'] },
+      { partial: true },
+      { epsilon: 1 },
+      { arrayOrder: 'ignore' },
+      { undefinedEqualsMissing: true },
+    ];
+    for (const options of optionSets) {
+      const equal = compileEqual(sample, options);
+      for (const [a, b] of pairs) {
+        expect(equal(a, b)).toBe(deepEqualCheck(a, b, options));
+      }
+    }
+  });
+
+  it('compares values deeper than the sample through the generic traversal', () => {
+    const list = (length: number) => {
+      // The last node has no `next` key, so longer lists do not fit a shorter sample
+      let node: Record<string, unknown> = { value: length };
+      for (let i = length - 1; i > 0; i--) node = { value: i, next: node };
+      return node;
+    };
+    for (const equal of [compileEqual(list(2)), compileEqual(list(1))]) {
+      expect(equal(list(50), list(50))).toBe(true);
+      expect(equal(list(50), list(49))).toBe(false);
+    }
+  });
+
+  it('leaves asymmetric matchers to the generic traversal', () => {
+    const equal = compileEqual(sample);
+    expect(equal(user(), user({ name: any(String), address: any(Object) }))).toBe(true);
+    expect(equal(user(), user({ name: any(Number) }))).toBe(false);
+  });
+
+  it('reports depth limits like the generic traversal', () => {
+    expect(compileEqual(sample, { maxDepth: 0 })(user(), user())).toBe(false);
+    expect(compileEqual(sample, { maxDepth: 1 })(user(), user())).toBe(true);
+  });
+
+  it('accepts shape descriptors', () => {
+    const equal = compileEqual(objectShape({
+      id: primitiveShape(),
+      points: arrayShape(objectShape({ x: primitiveShape(), y: primitiveShape() })),
+      meta: anyShape(),
+    }));
+    const value = (y: number) => ({ id: 1, points: [{ x: 0, y }], meta: new Map([[1, { y }]]) });
+    expect(equal(value(1), value(1))).toBe(true);
+    expect(equal(value(1), value(2))).toBe(false);
+  });
+
+  it('handles keys that are not identifiers', () => {
+    const equal = compileEqual({ 'a-b': 1, '"quoted"': 2 });
+    expect(equal({ 'a-b': 1, '"quoted"': 2 }, { 'a-b': 1, '"quoted"': 2 })).toBe(true);
+    expect(equal({ 'a-b': 1, '"quoted"': 2 }, { 'a-b': 1, '"quoted"': 3 })).toBe(false);
+
+    const proto = JSON.parse('{"__proto__": 1}');
+    const equalProto = compileEqual(proto);
+    expect(equalProto(proto, JSON.parse('{"__proto__": 1}'))).toBe(true);
+    expect(equalProto(proto, JSON.parse('{"__proto__": 2}'))).toBe(false);
+  });
+
+  it('falls back to closures where code generation is not allowed', () => {
+    const original = globalThis.Function;
+    (globalThis as any).Function = function () {
+      throw new EvalError('Code generation from strings disallowed');
+    };
+    try {
+      const equal = compileEqual(sample, { strictZero: true });
+      for (const [a, b] of pairs) {
+        expect(equal(a, b)).toBe(deepEqualCheck(a, b, { strictZero: true }));
+      }
+    } finally {
+      globalThis.Function = original;
+    }
+  });
+  it('knows the objects it took apart when references lead back to them', () => {
+    const loop = () => {
+      const value: Record<string, unknown> = { foo: 1 };
+      value.self = value;
+      return value;
+    };
+    const a = loop();
+    const pairs: Array<[unknown, unknown]> = [
+      [a, { foo: 1, self: loop() }], [a, loop()], [{ c: a }, { c: loop() }], [{ c: a }, { c: { foo: 1, self: loop() } }],
+    ];
+    const nested = objectShape({ foo: primitiveShape(), self: objectShape({ foo: primitiveShape(), self: anyShape() }) });
+    const original = globalThis.Function;
+    for (const options of [{}, { maxDepth: 2 }]) {
+      for (const shape of [a, { c: a }, nested, objectShape({ c: nested })]) {
+        const generated = compileEqual(shape, options);
+        (globalThis as any).Function = function () {
+          throw new EvalError('Code generation from strings disallowed');
+        };
+        let closures;
+        try {
+          closures = compileEqual(shape, options);
+        } finally {
+          globalThis.Function = original;
+        }
+        for (const [x, y] of pairs) {
+          expect(generated(x, y)).toBe(deepEqualCheck(x, y, options));
+          expect(closures(x, y)).toBe(deepEqualCheck(x, y, options));
+        }
+      }
+    }
+  });
+});
+
+describe('inferShape', () => {
+  it('follows plain objects and arrays', () => {
+    expect(inferShape({ a: 1, b: [{ c: 'x' }] })).toEqual(objectShape({
+      a: primitiveShape(),
+      b: arrayShape(objectShape({ c: primitiveShape() })),
+    }));
+  });
+
+  it('uses anyShape where the structure is not fixed', () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+    expect(inferShape(circular)).toEqual(objectShape({ self: anyShape() }));
+    expect(inferShape([1, { a: 1 }])).toEqual(arrayShape(anyShape()));
+    expect(inferShape([])).toEqual(arrayShape(anyShape()));
+    expect(inferShape(new Point(1, 2))[SHAPE]).toBe('any');
+    expect(inferShape(() => 1)[SHAPE]).toBe('any');
+    expect(inferShape(JSON.parse('{"__proto__": 1}'))[SHAPE]).toBe('any');
+  });
+
+  it('stops following samples nested too deeply', () => {
+    const deep = (leaf: number) => {
+      let value: unknown = leaf;
+      for (let i = 0; i < 200000; i++) value = [value];
+      return value;
+    };
+    let shape = inferShape(deep(1));
+    let depth = 0;
+    for (; shape[SHAPE] === 'array'; depth++) shape = (shape as { element: ShapeDescriptor }).element;
+    expect(depth).toBe(64);
+    const equal = compileEqual(deep(1));
+    expect(equal(deep(1), deep(1))).toBe(true);
+    expect(equal(deep(1), deep(2))).toBe(false);
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Comparators specialised for one data shape: fixed keys and known nested types
+ * are checked by generated straight-line code instead of the generic traversal
+ */
+import { createNestedState, deepEqualCore } from './core';
+import { createDeepEqual } from './factory';
+import { isAsymmetricMatcher } from './matchers';
+import { hasLimits, hasNumericTolerance, hasUnorderedArrays, needsPath, resolveOptions } from './options';
+import { isDeepEquatable } from './protocol';
+import type { DeepEqualFunction, DeepEqualOptions, RequiredDeepEqualOptions } from './types';
+
+/** Well-known symbol marking an object as a shape descriptor; its value is the kind of shape */
+export const SHAPE: unique symbol = Symbol.for('deep-equal-check.shape');
+
+/**
+ * Expected structure of the values a compiled comparator is made for.
+ * Values that turn out not to fit are compared by the generic traversal.
+ */
+export type ShapeDescriptor =
+  | { readonly [SHAPE]: 'primitive' }
+  | { readonly [SHAPE]: 'any' }
+  | { readonly [SHAPE]: 'object'; readonly keys: Readonly<Record<string, ShapeDescriptor>> }
+  | { readonly [SHAPE]: 'array'; readonly element: ShapeDescriptor };
+
+export function isShapeDescriptor(value: unknown): value is ShapeDescriptor {
+  return typeof value === 'object' && value !== null && typeof (value as any)[SHAPE] === 'string';
+}
+
+/** Strings, numbers and other primitives */
+export function primitiveShape(): ShapeDescriptor {
+  return { [SHAPE]: 'primitive' };
+}
+
+/** Anything at all, always compared by the generic traversal */
+export function anyShape(): ShapeDescriptor {
+  return { [SHAPE]: 'any' };
+}
+
+/** Plain object with exactly these own enumerable keys */
+export function objectShape(keys: Record<string, ShapeDescriptor>): ShapeDescriptor {
+  return { [SHAPE]: 'object', keys };
+}
+
+/** Plain array whose elements all have the same shape */
+export function arrayShape(element: ShapeDescriptor): ShapeDescriptor {
+  return { [SHAPE]: 'array', element };
+}
+
+/** Levels of a shape the specialised code takes apart; deeper values go to the generic traversal */
+const MAX_SHAPE_DEPTH = 64;
+
+/**
+ * Describes the shape of a sample value. Plain objects and arrays are followed,
+ * primitives become `primitiveShape()`; class instances, functions, circular
+ * references, arrays whose elements differ in shape, objects with an own
+ * `__proto__` key and values nested more than 64 levels deep become `anyShape()`.
+ */
+export function inferShape(sample: unknown): ShapeDescriptor {
+  return infer(sample, new Set(), 0);
+}
+
+function infer(value: unknown, ancestors: Set<object>, depth: number): ShapeDescriptor {
+  if (value === null || typeof value !== 'object' && typeof value !== 'function') return primitiveShape();
+  if (typeof value === 'function' || depth >= MAX_SHAPE_DEPTH || ancestors.has(value) || isAsymmetricMatcher(value) ||
+      isDeepEquatable(value)) {
+    return anyShape();
+  }
+
+  ancestors.add(value);
+  let result = anyShape();
+  if (Array.isArray(value) && value.constructor === Array) {
+    result = arrayShape(value.length === 0 ? anyShape() : commonShape(value, ancestors, depth + 1));
+  } else if (value.constructor === Object && !Object.prototype.hasOwnProperty.call(value, '__proto__')) {
+    const keys: Record<string, ShapeDescriptor> = {};
+    for (const key of Object.keys(value)) keys[key] = infer((value as Record<string, unknown>)[key], ancestors, depth + 1);
+    result = objectShape(keys);
+  }
+  ancestors.delete(value);
+  return result;
+}
+
+function commonShape(elements: readonly unknown[], ancestors: Set<object>, depth: number): ShapeDescriptor {
+  const first = infer(elements[0], ancestors, depth);
+  for (let i = 1; i < elements.length; i++) {
+    if (!sameShape(first, infer(elements[i], ancestors, depth))) return anyShape();
+  }
+  return first;
+}
+
+function sameShape(a: ShapeDescriptor, b: ShapeDescriptor): boolean {
+  if (a[SHAPE] !== b[SHAPE]) return false;
+  if (a[SHAPE] === 'array') return sameShape(a.element, (b as typeof a).element);
+  if (a[SHAPE] !== 'object') return true;
+  const keysA = Object.keys(a.keys);
+  const keysB = (b as typeof a).keys;
+  return keysA.length === Object.keys(keysB).length &&
+    keysA.every(key => Object.prototype.hasOwnProperty.call(keysB, key) && sameShape(a.keys[key], keysB[key]));
+}
+
+/**
+ * The specialised code only handles what the default mode does without path
+ * bookkeeping; any other options are served by the generic comparator
+ */
+function canSpecialize(options: RequiredDeepEqualOptions): boolean {
+  return options.mode === 'default' && !needsPath(options) && !options.partial && !options.undefinedEqualsMissing &&
+    !hasNumericTolerance(options) && !hasUnorderedArrays(options) &&
+    !options.symbolKeys && !options.nonEnumerable && !options.compareDescriptors &&
+    !options.compareIterables && !options.useValueOf && !options.preserveSharedReferences &&
+    !hasLimits(options);
+}
+
+/** Plain objects and arrays the generated code may take apart itself */
+function isPlainObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && value.constructor === Object &&
+    !isAsymmetricMatcher(value) && !isDeepEquatable(value);
+}
+
+function isPlainArray(value: unknown): boolean {
+  return Array.isArray(value) && value.constructor === Array &&
+    !isAsymmetricMatcher(value) && !isDeepEquatable(value);
+}
+
+type ObjectShape = Extract<ShapeDescriptor, { keys: unknown }>;
+type ArrayShape = Extract<ShapeDescriptor, { element: unknown }>;
+
+/**
+ * How a node of the shape is compared: objects and arrays are taken apart unless
+ * the depth limit is reached there (the generic traversal then reports it) or the
+ * shape is nested too deeply, anything else goes to the generic traversal unless
+ * `===` settles it. A `__proto__` key cannot be read as an own property by plain
+ * member access, so such objects are left alone too.
+ */
+function nodeKind(shape: ShapeDescriptor, depth: number, options: RequiredDeepEqualOptions): 'object' | 'array' | 'leaf' {
+  if (!isShapeDescriptor(shape) || depth > options.maxDepth || depth >= MAX_SHAPE_DEPTH) return 'leaf';
+  if (shape[SHAPE] === 'array') return 'array';
+  return shape[SHAPE] === 'object' && !Object.prototype.hasOwnProperty.call(shape.keys, '__proto__') ? 'object' : 'leaf';
+}
+
+interface EmitContext {
+  options: RequiredDeepEqualOptions;
+  lines: string[];
+  nextName: number;
+}
+
+/**
+ * Emits statements that `return false` when the values named `a` and `b` differ.
+ * `enclosingA` and `enclosingB` name the objects taken apart around them, outermost first.
+ */
+function emit(
+  shape: ShapeDescriptor,
+  a: string,
+  b: string,
+  depth: number,
+  context: EmitContext,
+  enclosingA: readonly string[],
+  enclosingB: readonly string[]
+): void {
+  const { lines } = context;
+  // Identical zeros still need telling apart under strictZero
+  const differs = context.options.strictZero ? `(${a} !== ${b} || ${a} === 0)` : `${a} !== ${b}`;
+  const fallback = `fallback(${a}, ${b}, ${depth}, [${enclosingA.join(', ')}], [${enclosingB.join(', ')}])`;
+  // References back to an enclosing object are settled by the generic traversal, which is told of them
+  const acyclic = [...enclosingA.map(name => `${a} !== ${name}`), ...enclosingB.map(name => `${b} !== ${name}`)];
+  const kind = nodeKind(shape, depth, context.options);
+  if (kind === 'object') {
+    const children = (shape as ObjectShape).keys;
+    const keys = Object.keys(children);
+    const literals = keys.map(key => JSON.stringify(key));
+    // Objects not of the expected keys may still be equal, so the generic traversal decides
+    const fits = [
+      ...acyclic,
+      `plainObject(${a})`,
+      `plainObject(${b})`,
+      `keys(${a}).length === ${keys.length}`,
+      `keys(${b}).length === ${keys.length}`,
+      ...literals.map(literal => `has.call(${a}, ${literal}) && has.call(${b}, ${literal})`),
+    ];
+    lines.push(`if (${differs}) {`);
+    lines.push(`if (!(${fits.join(' && ')})) { if (!${fallback}) return false; } else {`);
+    keys.forEach((key, i) => {
+      const id = context.nextName++;
+      lines.push(`const a${id} = ${a}[${literals[i]}], b${id} = ${b}[${literals[i]}];`);
+      emit(children[key], `a${id}`, `b${id}`, depth + 1, context, [...enclosingA, a], [...enclosingB, b]);
+    });
+    lines.push('}', '}');
+  } else if (kind === 'array') {
+    const id = context.nextName++;
+    const fits = [...acyclic, `plainArray(${a})`, `plainArray(${b})`];
+    lines.push(`if (${differs}) {`);
+    lines.push(`if (!(${fits.join(' && ')})) { if (!${fallback}) return false; } else {`);
+    lines.push(`if (${a}.length !== ${b}.length) return false;`);
+    lines.push(`for (let i${id} = 0; i${id} < ${a}.length; i${id}++) {`);
+    lines.push(`const a${id} = ${a}[i${id}], b${id} = ${b}[i${id}];`);
+    emit((shape as ArrayShape).element, `a${id}`, `b${id}`, depth + 1, context, [...enclosingA, a], [...enclosingB, b]);
+    lines.push('}', '}', '}');
+  } else {
+    lines.push(`if (${differs} && !${fallback}) return false;`);
+  }
+}
+
+type Comparator = (a: unknown, b: unknown, enclosingA: object[], enclosingB: object[]) => boolean;
+type Fallback = (a: unknown, b: unknown, depth: number, enclosingA: object[], enclosingB: object[]) => boolean;
+
+/**
+ * Same checks as the generated code, as closures, for environments where
+ * `new Function` is not allowed (e.g. a Content Security Policy without 'unsafe-eval')
+ */
+function buildClosure(
+  shape: ShapeDescriptor,
+  depth: number,
+  options: RequiredDeepEqualOptions,
+  fallback: Fallback
+): Comparator {
+  const strictZero = options.strictZero;
+  const kind = nodeKind(shape, depth, options);
+  if (kind === 'object') {
+    const children = (shape as ObjectShape).keys;
+    const keys = Object.keys(children);
+    const comparators = keys.map(key => buildClosure(children[key], depth + 1, options, fallback));
+    return (a, b, enclosingA, enclosingB) => {
+      if (a === b && !(strictZero && a === 0)) return true;
+      if (!isPlainObject(a) || !isPlainObject(b) || enclosingA.includes(a as object) || enclosingB.includes(b as object)) {
+        return fallback(a, b, depth, enclosingA, enclosingB);
+      }
+      const objA = a as Record<string, unknown>;
+      const objB = b as Record<string, unknown>;
+      if (Object.keys(objA).length !== keys.length || Object.keys(objB).length !== keys.length) {
+        return fallback(a, b, depth, enclosingA, enclosingB);
+      }
+      for (let i = 0; i < keys.length; i++) {
+        if (!Object.prototype.hasOwnProperty.call(objA, keys[i]) ||
+            !Object.prototype.hasOwnProperty.call(objB, keys[i])) return fallback(a, b, depth, enclosingA, enclosingB);
+      }
+      enclosingA.push(objA);
+      enclosingB.push(objB);
+      let equal = true;
+      for (let i = 0; i < keys.length && equal; i++) {
+        equal = comparators[i](objA[keys[i]], objB[keys[i]], enclosingA, enclosingB);
+      }
+      enclosingA.pop();
+      enclosingB.pop();
+      return equal;
+    };
+  }
+  if (kind === 'array') {
+    const element = buildClosure((shape as ArrayShape).element, depth + 1, options, fallback);
+    return (a, b, enclosingA, enclosingB) => {
+      if (a === b && !(strictZero && a === 0)) return true;
+      if (!isPlainArray(a) || !isPlainArray(b) || enclosingA.includes(a as object) || enclosingB.includes(b as object)) {
+        return fallback(a, b, depth, enclosingA, enclosingB);
+      }
+      const arrA = a as unknown[];
+      const arrB = b as unknown[];
+      if (arrA.length !== arrB.length) return false;
+      enclosingA.push(arrA);
+      enclosingB.push(arrB);
+      let equal = true;
+      for (let i = 0; i < arrA.length && equal; i++) {
+        equal = element(arrA[i], arrB[i], enclosingA, enclosingB);
+      }
+      enclosingA.pop();
+      enclosingB.pop();
+      return equal;
+    };
+  }
+  return (a, b, enclosingA, enclosingB) =>
+    (a === b && !(strictZero && a === 0)) || fallback(a, b, depth, enclosingA, enclosingB);
+}
+
+/**
+ * Compiles a comparator specialised for one shape of data
+ *
+ * The shape comes from a sample value (see `inferShape`) or a descriptor built with
+ * `objectShape`, `arrayShape`, `primitiveShape` and `anyShape`. The generated code checks
+ * the expected keys one by one and loops over arrays directly; wherever a value does not
+ * fit the shape (a class instance, an extra key, a differing primitive) the comparison of
+ * that value is handed to the generic traversal, so results always match `deepEqualCheck`.
+ * Options the specialised code does not cover, such as path filters, customizers or
+ * strict mode, make it return the generic comparator of `createDeepEqual`.
+ *
+ * @param sampleOrShape - Representative value, or a shape descriptor
+ * @param options - Comparison options (same as `deepEqualCheck`)
+ * @returns Function comparing two values like `deepEqualCheck(a, b, options)`
+ *
+ * @example
+ * ```typescript
+ * import { compileEqual } from 'deep-equal-check';
+ *
+ * const equalUsers = compileEqual({ id: 1, name: 'Ann', tags: ['admin'] });
+ * equalUsers({ id: 2, name: 'Bob', tags: [] }, { id: 2, name: 'Bob', tags: [] }); // true
+ * ```
+ */
+export function compileEqual(sampleOrShape: unknown, options: DeepEqualOptions = {}): DeepEqualFunction {
+  const resolved = resolveOptions(options);
+  if (!canSpecialize(resolved)) return createDeepEqual(options);
+
+  const shape = isShapeDescriptor(sampleOrShape) ? sampleOrShape : inferShape(sampleOrShape);
+  // The generic traversal starts out inside the objects taken apart so far, as deepEqualCheck would be
+  const fallback: Fallback = (a, b, depth, enclosingA, enclosingB) =>
+    deepEqualCore(a, b, createNestedState(resolved, enclosingA, enclosingB), depth);
+
+  const context: EmitContext = { options: resolved, lines: [], nextName: 0 };
+  emit(shape, 'a', 'b', 0, context, [], []);
+  let compiled: (a: unknown, b: unknown) => boolean;
+  try {
+    compiled = new Function(
+      'fallback', 'plainObject', 'plainArray', 'keys', 'has',
+      `return function compiledEqual(a, b) {\n${context.lines.join('\n')}\nreturn true;\n};`
+    )(fallback, isPlainObject, isPlainArray, Object.keys, Object.prototype.hasOwnProperty);
+  } catch {
+    const comparator = buildClosure(shape, 0, resolved, fallback);
+    compiled = (a, b) => comparator(a, b, [], []);
+  }
+  return compiled as DeepEqualFunction;
+}
@@ -0,0 +1,2419 @@
+import { isAsymmetricMatcher } from './matchers';
+import type { AsymmetricMatcher } from './matchers';
+import { definesValueOf, NOT_BOXED, unbox } from './boxed';
+import { structuralHash } from './hash';
+import { checkedTag, typeTag } from './tags';
+import { DEEP_EQUALS, isDeepEquatable } from './protocol';
+import { ownKeys } from './keys';
+import {
+  canUseHashing,
+  comparesPlainly,
+  hasLimits,
+  hasNumericTolerance,
+  hasPathFilter,
+  needsPath,
+  resolveOptions,
+} from './options';
+import { createLimits, DeepEqualLimitError, reachLimit, spend, startLimits, stopAtDifference } from './limits';
+import { createPathMatcher, matchTrackedPath, matchTrackedPathPartial, truncatePathMatcher } from './paths';
+import type {
+  CompareState,
+  ComparisonLimits,
+  CompiledCustomizers,
+  Customizer,
+  DeepDiffKind,
+  DeepEqualOptions,
+  NumericTolerance,
+  PairStack,
+  PathSegment,
+  RequiredDeepEqualOptions,
+} from './types';
+
+/**
+ * Creates the root traversal state. Paths are only tracked when diffs are
+ * collected or an option depends on them.
+ */
+export function createState(options: DeepEqualOptions, collectDiffs: boolean): CompareState {
+  return createResolvedState(resolveOptions(options), collectDiffs);
+}
+
+/**
+ * Same as `createState`, for options resolved beforehand
+ */
+export function createResolvedState(resolved: RequiredDeepEqualOptions, collectDiffs: boolean): CompareState {
+  const pathNeeded = needsPath(resolved);
+  const limited = hasLimits(resolved);
+  return {
+    options: resolved,
+    pairs: resolved.mode === 'default' ? createPairStack(resolved, pathNeeded) : null,
+    shared: resolved.preserveSharedReferences ? { a: new WeakMap(), b: new WeakMap() } : null,
+    outerShared: [],
+    path: collectDiffs || pathNeeded || limited ? [] : null,
+    pathMatcher: pathNeeded ? createPathMatcher() : null,
+    diffs: collectDiffs ? [] : null,
+    stack: resolved.mode === 'default' ? null : new Set(),
+    bypassDepth: -1,
+    limits: limited ? createLimits() : null,
+    plain: !collectDiffs && !pathNeeded && !limited && comparesPlainly(resolved),
+  };
+}
+
+/**
+ * Root state for comparing values found inside pairs of objects compared elsewhere,
+ * in default mode: the pairs, outermost first, are on the pair stack as if the
+ * traversal had entered them, so references back to them are recognised
+ */
+export function createNestedState(
+  resolved: RequiredDeepEqualOptions,
+  enclosingA: readonly object[],
+  enclosingB: readonly object[]
+): CompareState {
+  const state = createResolvedState(resolved, false);
+  for (let i = 0; i < enclosingA.length; i++) pushPair(enclosingA[i], enclosingB[i], state.pairs!, i);
+  return state;
+}
+
+/** Pairs with fewer objects below them are compared again rather than remembered as equal */
+const REMEMBER_FROM = 16;
+
+/** Levels of the pair stacks searched by scanning; deeper levels are indexed by object */
+const SCANNED_LEVELS = 64;
+
+function createPairStack(options: RequiredDeepEqualOptions, pathNeeded: boolean): PairStack {
+  return {
+    a: [],
+    b: [],
+    deepA: null,
+    deepB: null,
+    closedAt: Infinity,
+    deepest: 0,
+    compared: 0,
+    // Where equality depends on the path, a pair equal in one place need not be in another
+    remember: !pathNeeded && !options.preserveSharedReferences,
+    equalTo: null,
+    equalHeight: null,
+  };
+}
+
+/**
+ * Records a difference at the current path (plus an optional trailing segment)
+ * when the state collects diffs. Always returns false so callers can `return fail(...)`.
+ */
+function fail(
+  state: CompareState,
+  kind: DeepDiffKind,
+  a: unknown,
+  b: unknown,
+  segment?: PathSegment
+): false {
+  if (state.diffs !== null) {
+    const path = state.path === null ? [] : state.path.slice();
+    if (segment !== undefined) path.push(segment);
+    state.diffs.push({ path, kind, a, b });
+    if (state.limits !== null && state.limits.stopAtDifference) stopAtDifference(state.limits);
+  }
+  return false;
+}
+
+function mismatchKind(a: unknown, b: unknown): DeepDiffKind {
+  const typeA = a === null ? 'null' : typeof a;
+  const typeB = b === null ? 'null' : typeof b;
+  return typeA === typeB ? 'changed' : 'typeMismatch';
+}
+
+/**
+ * State used for trial comparisons (e.g. searching a Set for a match):
+ * never reports differences and records shared references in its own maps,
+ * while still recognising the references met by the comparisons enclosing it
+ */
+function createTrialState(state: CompareState, segment?: PathSegment): CompareState {
+  const path = state.path === null ? null : segment === undefined ? state.path.slice() : [...state.path, segment];
+  return {
+    options: state.options,
+    // Finished pairs leave the stacks, so trials can share them
+    pairs: state.pairs,
+    shared: state.shared === null ? null : { a: new WeakMap(), b: new WeakMap() },
+    outerShared: state.shared === null ? state.outerShared : [...state.outerShared, state.shared],
+    path,
+    // The copied path is matched afresh
+    pathMatcher: state.pathMatcher === null ? null : createPathMatcher(),
+    diffs: null,
+    stack: state.stack,
+    bypassDepth: -1,
+    limits: state.limits,
+    plain: comparesPlainly(state.options),
+  };
+}
+
+/**
+ * Runs a customizer and records a difference when it rejects the values
+ */
+function applyCustomizer(
+  customizer: Customizer,
+  a: unknown,
+  b: unknown,
+  state: CompareState,
+  depth: number
+): boolean | undefined {
+  // Nested comparisons made by the customizer are not differences by themselves
+  const nestedState: CompareState = { ...state, diffs: null, bypassDepth: depth + 1 };
+  const result = customizer(a, b, {
+    path: state.path === null ? [] : state.path.slice(),
+    depth,
+    equals: (x, y) => deepEqualCore(x, y, nestedState, depth + 1),
+  });
+  if (result === false) return fail(state, 'changed', a, b);
+  return result;
+}
+
+/**
+ * Checks `ignorePaths`/`onlyPaths` for a child of the current value. Paths that
+ * only lead towards an `onlyPaths` match are kept when there is something to descend into.
+ */
+function isPathExcluded(state: CompareState, segment: PathSegment, a: unknown, b: unknown): boolean {
+  const { ignorePaths, onlyPaths } = state.options;
+  const path = state.path!;
+  const matcher = state.pathMatcher!;
+  path.push(segment);
+  let excluded = false;
+  for (let i = 0; i < ignorePaths.length && !excluded; i++) {
+    excluded = matchTrackedPath(matcher, ignorePaths[i], path);
+  }
+  if (!excluded && onlyPaths !== null) {
+    const hasChildren = typeof a === 'object' && a !== null || typeof b === 'object' && b !== null;
+    excluded = !onlyPaths.some(pattern =>
+      matchTrackedPath(matcher, pattern, path, true) || hasChildren && matchTrackedPathPartial(matcher, pattern, path));
+  }
+  leavePath(state);
+  return excluded;
+}
+
+/**
+ * Runs an asymmetric matcher found on either side. The matcher's nested comparisons
+ * keep it on its own side, so partial mode still treats B as the expected value.
+ */
+function applyMatcher(a: unknown, b: unknown, state: CompareState, depth: number): boolean {
+  const nestedState: CompareState = { ...state, diffs: null };
+  const matcherOnB = isAsymmetricMatcher(b);
+  const matched = matcherOnB
+    ? (b as AsymmetricMatcher).asymmetricMatch(a, (x, y) => deepEqualCore(x, y, nestedState, depth + 1))
+    : (a as AsymmetricMatcher).asymmetricMatch(b, (x, y) => deepEqualCore(y, x, nestedState, depth + 1));
+  return matched || fail(state, 'matcherMismatch', a, b);
+}
+
+/**
+ * Runs the customizer registered for the constructor of either value, if any
+ */
+function applyConstructorCustomizer(a: object, b: object, state: CompareState, depth: number): boolean | undefined {
+  const customizers = state.options.customizers;
+  if (customizers === null || customizers.byConstructor.size === 0) return undefined;
+  const customizer = customizers.byConstructor.get(a.constructor) ?? customizers.byConstructor.get(b.constructor);
+  return customizer ? applyCustomizer(customizer, a, b, state, depth) : undefined;
+}
+
+/**
+ * Lets a value implementing the `DEEP_EQUALS` protocol decide, trying A's
+ * method first. Nested comparisons it makes are not differences by themselves.
+ */
+function applyEqualsProtocol(a: object, b: object, state: CompareState, depth: number): boolean | undefined {
+  let result: boolean | undefined;
+  if (isDeepEquatable(a)) {
+    const nestedState: CompareState = { ...state, diffs: null };
+    result = a[DEEP_EQUALS](b, (x, y) => deepEqualCore(x, y, nestedState, depth + 1));
+  } else if (isDeepEquatable(b)) {
+    const nestedState: CompareState = { ...state, diffs: null };
+    result = b[DEEP_EQUALS](a, (x, y) => deepEqualCore(y, x, nestedState, depth + 1));
+  } else {
+    return undefined;
+  }
+  if (result === false) return fail(state, 'changed', a, b);
+  return result === true ? true : undefined;
+}
+
+function findPathCustomizer(customizers: CompiledCustomizers, state: CompareState): Customizer | undefined {
+  for (const [pattern, customizer] of customizers.byPath) {
+    if (matchTrackedPath(state.pathMatcher!, pattern, state.path!)) return customizer;
+  }
+  return undefined;
+}
+
+/**
+ * Removes the last segment of the path, which the path matcher must be told about
+ */
+function leavePath(state: CompareState): void {
+  const path = state.path!;
+  path.pop();
+  if (state.pathMatcher !== null) truncatePathMatcher(state.pathMatcher, path.length);
+}
+
+/**
+ * Compares a nested value, keeping the path in sync when it is tracked
+ */
+function compareChild(
+  a: unknown,
+  b: unknown,
+  segment: PathSegment,
+  state: CompareState,
+  depth: number
+): boolean {
+  const path = state.path;
+  if (path === null) {
+    return deepEqualCore(a, b, state, depth);
+  }
+  path.push(segment);
+  const equal = deepEqualCore(a, b, state, depth);
+  leavePath(state);
+  return equal;
+}
+
+/**
+ * A nested comparison asked for by a comparison written as steps. Its result is
+ * sent back into the steps, whichever engine carries it out.
+ */
+interface NestedComparison {
+  a: unknown;
+  b: unknown;
+  /** Path segment of the nested values, as given to `compareChild`; undefined for trials and Map keys */
+  segment: PathSegment | undefined;
+  state: CompareState;
+  depth: number;
+}
+
+/**
+ * Comparison of values containing other values, yielding the nested comparisons
+ * it needs instead of making them: `runSteps` makes them by recursion and
+ * `compareIteratively` on an explicit stack
+ */
+type Steps<T = boolean> = Generator<NestedComparison, T, boolean>;
+
+function nested(a: unknown, b: unknown, segment: PathSegment | undefined, state: CompareState, depth: number): NestedComparison {
+  return { a, b, segment, state, depth };
+}
+
+/**
+ * Carries out steps by recursion
+ */
+function runSteps<T>(steps: Steps<T>): T {
+  let step = steps.next(true);
+  while (!step.done) {
+    const { a, b, segment, state, depth } = step.value;
+    step = steps.next(segment === undefined
+      ? deepEqualCore(a, b, state, depth)
+      : compareChild(a, b, segment, state, depth));
+  }
+  return step.value;
+}
+
+/** Depth from which nested values are compared on an explicit stack rather than by recursion */
+const ITERATIVE_DEPTH = 256;
+
+/**
+ * Settles identical values and pairs of primitives the way `compareValues` does, for
+ * callers to skip building a traversal state. Undefined when the values need one, or
+ * an option (a customizer, path option or limit) could decide them differently.
+ */
+export function compareWithoutState(a: unknown, b: unknown, options: RequiredDeepEqualOptions): boolean | undefined {
+  if (a !== b && (typeof a === 'object' && a !== null || typeof a === 'function' ||
+      typeof b === 'object' && b !== null || typeof b === 'function')) return undefined;
+  if (needsPath(options) || hasLimits(options)) return undefined;
+  if (a === b) return !options.strictZero || a !== 0 || 1 / (a as number) === 1 / (b as number);
+  if (
+    (a === null || typeof a !== 'object' && typeof a !== 'function') &&
+    (b === null || typeof b !== 'object' && typeof b !== 'function')
+  ) {
+    if (typeof a === 'number' && typeof b === 'number' && isNaN(a) && isNaN(b)) return options.nanEqual;
+    return options.mode === 'loose' && a == b ||
+      typeof a === 'number' && typeof b === 'number' && hasNumericTolerance(options) &&
+        withinTolerance(a, b, options, false);
+  }
+  return undefined;
+}
+
+/**
+ * Compares two values from the root, within the budgets of the options when there
+ * are any. A budget running out counts the values as different, collected as a
+ * `limitExceeded` difference, unless `throwOnLimit` is set.
+ */
+export function compareRoot(a: unknown, b: unknown, state: CompareState): boolean {
+  return state.limits === null ? deepEqualCore(a, b, state, 0) : compareWithinLimits(a, b, state, state.limits);
+}
+
+function compareWithinLimits(a: unknown, b: unknown, state: CompareState, limits: ComparisonLimits): boolean {
+  startLimits(limits, state.options);
+  try {
+    return deepEqualCore(a, b, state, 0);
+  } catch (error) {
+    if (error !== limits.stopped) throw error;
+    if (error instanceof DeepEqualLimitError) {
+      if (state.options.throwOnLimit) throw error;
+      const { path, a: stoppedA, b: stoppedB } = limits.reached!;
+      if (state.diffs !== null) state.diffs.push({ path, kind: 'limitExceeded', a: stoppedA, b: stoppedB });
+    }
+    return false;
+  }
+}
+
+export function deepEqualCore(
+  a: unknown,
+  b: unknown,
+  state: CompareState,
+  depth: number
+): boolean {
+  return state.plain ? comparePlainly(a, b, state, depth) : compareValues(a, b, state, depth, false)!;
+}
+
+/**
+ * Shortcut of `compareValues` for states whose options cannot change how plain
+ * objects and arrays compare: those are taken apart directly, skipping the type,
+ * customizer and path handling that cannot apply to them, and other objects go
+ * straight to `compareTracked`. Primitives, matchers, pairs at the depth limit and
+ * `DEEP_EQUALS` implementations dressed as plain objects take the long way round.
+ */
+function comparePlainly(a: unknown, b: unknown, state: CompareState, depth: number): boolean {
+  const options = state.options;
+  if (a === b) return !options.strictZero || a !== 0 || 1 / (a as number) === 1 / (b as number);
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null ||
+      depth > options.maxDepth || depth >= ITERATIVE_DEPTH || isAsymmetricMatcher(a) || isAsymmetricMatcher(b)) {
+    return compareValues(a, b, state, depth, false)!;
+  }
+  if (options.checkPrototypes && a.constructor !== b.constructor) return false;
+  const prototype = Object.getPrototypeOf(a);
+  const array = prototype === Array.prototype;
+  // The type is known without its tag: arrays, and objects the tag would read as plain ones
+  const known = prototype === Object.getPrototypeOf(b) && (array
+    ? Array.isArray(a) && Array.isArray(b)
+    : prototype === Object.prototype && a.constructor === Object && b.constructor === Object);
+  if (!known || isDeepEquatable(a) || isDeepEquatable(b)) return compareTracked(a, b, state, depth);
+
+  const decided = knownPair(a, b, state, depth);
+  if (decided !== undefined) return decided;
+  const pairs = state.pairs!;
+  const comparedBefore = pairs.compared;
+  const closedOutside = pairs.closedAt;
+  const deepestOutside = pairs.deepest;
+  // Only nested objects can lead back to the pair, so it goes on the stack just before the first of them
+  let pushed = false;
+  let equal: boolean;
+  if (array) {
+    const arrA = a as unknown[];
+    const arrB = b as unknown[];
+    const length = arrA.length;
+    equal = length === arrB.length;
+    for (let i = 0; i < length && equal; i++) {
+      const itemA = arrA[i];
+      const itemB = arrB[i];
+      if (!pushed && mayLeadBack(itemA, itemB)) {
+        pushPair(a, b, pairs, depth);
+        pushed = true;
+      }
+      equal = comparePlainly(itemA, itemB, state, depth + 1);
+    }
+  } else {
+    const objA = a as Record<string, unknown>;
+    const objB = b as Record<string, unknown>;
+    const keys = Object.keys(objA);
+    equal = sameEnumerableKeys(keys, Object.keys(objB), objB);
+    for (let i = 0; i < keys.length && equal; i++) {
+      const valueA = objA[keys[i]];
+      const valueB = objB[keys[i]];
+      if (!pushed && mayLeadBack(valueA, valueB)) {
+        pushPair(a, b, pairs, depth);
+        pushed = true;
+      }
+      equal = comparePlainly(valueA, valueB, state, depth + 1);
+    }
+  }
+  if (pushed) {
+    popPair(a, b, pairs, depth, equal, comparedBefore, closedOutside, deepestOutside);
+  } else if (depth > pairs.deepest) {
+    // As pushing and popping the pair would have left it
+    pairs.deepest = depth;
+  }
+  return equal;
+}
+
+/**
+ * Whether comparing the values could reach objects already under comparison
+ */
+function mayLeadBack(a: unknown, b: unknown): boolean {
+  return a !== b && (typeof a === 'object' && a !== null || typeof b === 'object' && b !== null);
+}
+
+/**
+ * Whether `keysB`, the enumerable own keys of `objB`, are the same as `keys` in any order
+ */
+function sameEnumerableKeys(keys: string[], keysB: string[], objB: object): boolean {
+  const length = keys.length;
+  if (length !== keysB.length) return false;
+  // Objects built alike list their keys alike, which spares looking each one up
+  let i = 0;
+  while (i < length && keys[i] === keysB[i]) i++;
+  for (; i < length; i++) {
+    if (!Object.prototype.propertyIsEnumerable.call(objB, keys[i])) return false;
+  }
+  return true;
+}
+
+/**
+ * Compares two values, settling first everything decided before looking inside
+ * them: customizers, identity, primitives, matchers, the depth limit and shared
+ * references. With `deferObjects`, two objects whose contents need comparing are
+ * left to the caller, returning undefined.
+ */
+function compareValues(
+  a: unknown,
+  b: unknown,
+  state: CompareState,
+  depth: number,
+  deferObjects: boolean
+): boolean | undefined {
+  const options = state.options;
+  if (state.limits !== null) spend(state.limits, a, b, state, depth);
+
+  // Path customizers apply to every value, primitives included
+  if (options.customizers !== null && options.customizers.byPath.length !== 0 && depth !== state.bypassDepth) {
+    const customizer = findPathCustomizer(options.customizers, state);
+    if (customizer) {
+      const result = applyCustomizer(customizer, a, b, state, depth);
+      if (result !== undefined) return result;
+    }
+  }
+
+  // Fast path: reference equality (most common case)
+  // Handles all strictly equal primitives, including null, undefined, etc.
+  // Special case for +0 and -0 if needed
+  // With preserveSharedReferences, identical objects are still followed to record the references in them
+  if (a === b && (state.shared === null || a === null || typeof a !== 'object' || isAsymmetricMatcher(a))) {
+    return !options.strictZero || (a !== 0 || 1 / (a as number) === 1 / (b as number)) ||
+      fail(state, 'changed', a, b);
+  }
+
+  // Fast path: handle NaN (fast-deep-equal style)
+  if (typeof a === 'number' && typeof b === 'number' && isNaN(a) && isNaN(b)) {
+    return options.nanEqual || fail(state, 'changed', a, b);
+  }
+
+  // Fast path: if both are primitives (not objects/functions), return false
+  if (
+    (a === null || typeof a !== 'object' && typeof a !== 'function') &&
+    (b === null || typeof b !== 'object' && typeof b !== 'function')
+  ) {
+    return options.mode === 'loose' && a == b ||
+      typeof a === 'number' && typeof b === 'number' && hasNumericTolerance(options) &&
+        withinTolerance(a, b, toleranceAt(state), false) ||
+      fail(state, mismatchKind(a, b), a, b);
+  }
+
+  // Asymmetric matchers on either side decide for themselves
+  if (isAsymmetricMatcher(a) || isAsymmetricMatcher(b)) {
+    return applyMatcher(a, b, state, depth);
+  }
+
+  // Depth limit, when one is set
+  if (depth > options.maxDepth) {
+    if (state.limits !== null) reachLimit(state.limits, 'maxDepth', a, b, state);
+    return fail(state, 'maxDepthExceeded', a, b);
+  }
+
+  // Fast path: different types
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') {
+    return fail(state, mismatchKind(a, b), a, b);
+  }
+
+  // Objects met before must meet the same counterparts again when shared references are preserved
+  if (state.shared !== null) {
+    const matched = matchShared(a, b, state);
+    if (matched !== undefined) return matched || fail(state, 'changed', a, b);
+  }
+
+  // Fast path: different constructors (with option to check prototypes; strict and loose modes check later)
+  if (state.stack === null && a.constructor !== b.constructor && options.checkPrototypes) {
+    return fail(state, 'constructorMismatch', a, b);
+  }
+  if (deferObjects) return undefined;
+
+  // Deeply nested values go on an explicit stack, which only memory limits
+  if (depth >= ITERATIVE_DEPTH) return compareIteratively(a, b, state, depth);
+  return state.stack !== null ? compareAssertStyle(a, b, state, depth) : compareTracked(a, b, state, depth);
+}
+
+/** Comparison of two objects in progress on the explicit stack of `compareIteratively` */
+interface Frame {
+  steps: Steps;
+  a: object;
+  b: object;
+  /** Segment pushed onto the path for the objects, undefined when none was */
+  segment: PathSegment | undefined;
+  state: CompareState;
+  depth: number;
+  /** The pair stack registers from before the pair was pushed, in default mode */
+  compared: number;
+  closedAt: number;
+  deepest: number;
+}
+
+/**
+ * Compares two objects like the recursive engine does, keeping the comparisons in
+ * progress on an explicit stack instead of the call stack, so that only memory
+ * limits how deeply nested the values can be
+ */
+function compareIteratively(a: object, b: object, state: CompareState, depth: number): boolean {
+  const frames: Frame[] = [];
+  let equal = openFrame(a, b, undefined, state, depth, frames) ?? true;
+  while (frames.length !== 0) {
+    const frame = frames[frames.length - 1];
+    const step = frame.steps.next(equal);
+    if (step.done) {
+      frames.pop();
+      equal = closeFrame(frame, step.value);
+      continue;
+    }
+    const request = step.value;
+    const path = request.segment === undefined ? null : request.state.path;
+    if (path !== null) path.push(request.segment!);
+    const decided = compareValues(request.a, request.b, request.state, request.depth, true) ??
+      openFrame(request.a as object, request.b as object, request.segment, request.state, request.depth, frames);
+    if (decided !== undefined) {
+      if (path !== null) leavePath(request.state);
+      equal = decided;
+    }
+  }
+  return equal;
+}
+
+/**
+ * Decides a pair of objects like `compareTracked` and `compareAssertStyle` do
+ * before looking inside them, or else pushes a frame comparing their contents
+ */
+function openFrame(
+  a: object,
+  b: object,
+  segment: PathSegment | undefined,
+  state: CompareState,
+  depth: number,
+  frames: Frame[]
+): boolean | undefined {
+  const pairs = state.pairs;
+  if (pairs === null) {
+    const tag = enterAssertPair(a, b, state);
+    if (typeof tag === 'boolean') return tag;
+    const steps = assertContentsSteps(a, b, tag, state, depth);
+    frames.push({ steps, a, b, segment, state, depth, compared: 0, closedAt: 0, deepest: 0 });
+    return undefined;
+  }
+
+  const known = knownPair(a, b, state, depth);
+  if (known !== undefined) return known;
+  const { compared, closedAt, deepest } = pairs;
+  pushPair(a, b, pairs, depth);
+  frames.push({ steps: objectSteps(a, b, state, depth), a, b, segment, state, depth, compared, closedAt, deepest });
+  return undefined;
+}
+
+function closeFrame(frame: Frame, equal: boolean): boolean {
+  const { a, b, state } = frame;
+  if (state.pairs === null) {
+    leaveAssertPair(a, b, state);
+  } else {
+    popPair(a, b, state.pairs, frame.depth, equal, frame.compared, frame.closedAt, frame.deepest);
+  }
+  if (frame.segment !== undefined && state.path !== null) leavePath(state);
+  return equal;
+}
+
+/**
+ * Checks a pair against the counterparts recorded for `preserveSharedReferences`.
+ * Returns undefined, after recording the pair, when neither object was met before,
+ * and otherwise whether each was met with the other.
+ */
+function matchShared(a: object, b: object, state: CompareState): boolean | undefined {
+  const shared = state.shared!;
+  let counterpartA = shared.a.get(a);
+  let counterpartB = shared.b.get(b);
+  for (let i = state.outerShared.length - 1; i >= 0; i--) {
+    if (counterpartA === undefined) counterpartA = state.outerShared[i].a.get(a);
+    if (counterpartB === undefined) counterpartB = state.outerShared[i].b.get(b);
+  }
+  if (counterpartA === undefined && counterpartB === undefined) {
+    shared.a.set(a, b);
+    shared.b.set(b, a);
+    return undefined;
+  }
+  return counterpartA === b && counterpartB === a;
+}
+
+/**
+ * Default-mode comparison of two objects, tracking the pairs under comparison on both
+ * sides. A reference back to a pair being compared is only equal when the other side
+ * leads back to that same pair, so cycles must line up; objects reached again without
+ * a cycle are compared again, made cheap by remembering pairs found equal.
+ */
+function compareTracked(a: object, b: object, state: CompareState, depth: number): boolean {
+  const known = knownPair(a, b, state, depth);
+  if (known !== undefined) return known;
+
+  const pairs = state.pairs!;
+  // Pairs decided without comparing nested values cannot lead back to themselves, so they
+  // never go on the stack; only customizers and DEEP_EQUALS compare nested values to decide
+  const kind = maySettleNested(a, b, state) ? undefined : classifyContents(a, b, state);
+  if (typeof kind === 'boolean') {
+    // As pushing and popping the pair would have left it
+    if (depth > pairs.deepest) pairs.deepest = depth;
+    return kind;
+  }
+  const comparedBefore = pairs.compared;
+  const closedOutside = pairs.closedAt;
+  const deepestOutside = pairs.deepest;
+  pushPair(a, b, pairs, depth);
+  const equal = compareObjects(a, b, state, depth, kind);
+  popPair(a, b, pairs, depth, equal, comparedBefore, closedOutside, deepestOutside);
+  return equal;
+}
+
+/**
+ * Decides a pair from the pairs under comparison and those remembered as equal,
+ * returning undefined when its contents need comparing
+ */
+function knownPair(a: object, b: object, state: CompareState, depth: number): boolean | undefined {
+  const pairs = state.pairs!;
+  const position = stackPosition(pairs.a, pairs.deepA, a);
+  if (position !== stackPosition(pairs.b, pairs.deepB, b)) return fail(state, 'changed', a, b);
+  if (position !== -1) {
+    if (position < pairs.closedAt) pairs.closedAt = position;
+    if (depth > pairs.deepest) pairs.deepest = depth;
+    return true;
+  }
+  pairs.compared++;
+  if (pairs.equalTo !== null && pairs.equalTo.get(a) === b) {
+    const deepest = depth + pairs.equalHeight!.get(a)!;
+    if (deepest <= state.options.maxDepth) {
+      if (deepest > pairs.deepest) pairs.deepest = deepest;
+      return true;
+    }
+  }
+  return undefined;
+}
+
+function pushPair(a: object, b: object, pairs: PairStack, depth: number): void {
+  if (pairs.a.length >= SCANNED_LEVELS) {
+    (pairs.deepA ??= new Map()).set(a, pairs.a.length);
+    (pairs.deepB ??= new Map()).set(b, pairs.b.length);
+  }
+  pairs.a.push(a);
+  pairs.b.push(b);
+  pairs.closedAt = Infinity;
+  pairs.deepest = depth;
+}
+
+/**
+ * Level of an object in one of the pair stacks, or -1
+ */
+function stackPosition(stack: object[], deep: Map<object, number> | null, value: object): number {
+  if (stack.length > SCANNED_LEVELS) return deep!.get(value) ?? stack.lastIndexOf(value, SCANNED_LEVELS - 1);
+  // Cheaper than calling lastIndexOf for the few levels most values have
+  let position = stack.length - 1;
+  while (position !== -1 && stack[position] !== value) position--;
+  return position;
+}
+
+/**
+ * Pops the pair pushed last, remembering it when found equal, and restores the
+ * registers to their values from before it was pushed
+ */
+function popPair(
+  a: object,
+  b: object,
+  pairs: PairStack,
+  depth: number,
+  equal: boolean,
+  comparedBefore: number,
+  closedOutside: number,
+  deepestOutside: number
+): void {
+  pairs.a.pop();
+  pairs.b.pop();
+  const level = pairs.a.length;
+  if (level >= SCANNED_LEVELS) {
+    pairs.deepA!.delete(a);
+    pairs.deepB!.delete(b);
+  }
+
+  const closedAt = pairs.closedAt;
+  // A result that assumed nothing about the enclosing pairs holds wherever the pair recurs;
+  // small pairs are cheaper to compare again than to remember
+  if (equal && closedAt >= level && pairs.remember && pairs.compared - comparedBefore >= REMEMBER_FROM) {
+    (pairs.equalTo ??= new WeakMap()).set(a, b);
+    (pairs.equalHeight ??= new WeakMap()).set(a, pairs.deepest - depth);
+  }
+  if (deepestOutside > pairs.deepest) pairs.deepest = deepestOutside;
+  pairs.closedAt = closedAt < level && closedAt < closedOutside ? closedAt : closedOutside;
+}
+
+/** What the contents of two objects of the same type are compared as */
+type ContentKind = 'array' | 'object' | 'error' | 'set' | 'map' | 'iterated';
+
+/**
+ * Type-specific comparison of two objects in default mode. Plain objects and
+ * ordered arrays are compared inline; other contents through their steps.
+ */
+function compareObjects(
+  a: object,
+  b: object,
+  state: CompareState,
+  depth: number,
+  kind: boolean | ContentKind = classifyObjects(a, b, state, depth)
+): boolean {
+  if (kind === 'object') {
+    // Handle plain objects (HYBRID APPROACH - inline for speed but keep structure)
+    return compareObjectOptimized(a as Record<PropertyKey, unknown>, b as Record<PropertyKey, unknown>, state, depth);
+  }
+  if (kind === 'array' && isArrayOrdered(state) && !state.options.partial && !hasPathFilter(state.options)) {
+    const arrA = a as any[];
+    const arrB = b as any[];
+    let length = arrA.length;
+    let equal = true;
+    if (length !== arrB.length) {
+      if (state.diffs === null) return false;
+      // Keep going over the common prefix so element differences are reported too
+      equal = fail(state, 'lengthMismatch', a, b);
+      length = Math.min(length, arrB.length);
+    }
+
+    // Ultra approach: inline loop for maximum speed
+    for (let i = 0; i < length; i++) {
+      if (!compareChild(arrA[i], arrB[i], i, state, depth + 1)) {
+        if (state.diffs === null) return false;
+        equal = false;
+      }
+    }
+    return equal;
+  }
+  // Under the default options Sets and Maps are first paired up the quick way, which mostly settles them
+  if (state.plain && (kind === 'set' || kind === 'map')) {
+    const paired = kind === 'set'
+      ? pairUpGreedily(a as Set<unknown>, b as Set<unknown>, state, depth)
+      : pairUpByKey(a as Map<unknown, unknown>, b as Map<unknown, unknown>, state, depth);
+    if (paired !== undefined) return paired;
+  }
+  return typeof kind === 'boolean' ? kind : runSteps(contentSteps(kind, a, b, state, depth));
+}
+
+/**
+ * Steps counterpart of `compareObjects`, for the explicit stack
+ */
+function* objectSteps(a: object, b: object, state: CompareState, depth: number): Steps {
+  const kind = classifyObjects(a, b, state, depth);
+  return typeof kind === 'boolean' ? kind : yield* contentSteps(kind, a, b, state, depth);
+}
+
+/**
+ * Decides two objects in default mode without looking at nested values, or else
+ * tells what their contents are compared as
+ */
+function classifyObjects(a: object, b: object, state: CompareState, depth: number): boolean | ContentKind {
+  // Constructor customizers take precedence over the built-in type handling, then classes' own equality
+  const customized = applyConstructorCustomizer(a, b, state, depth);
+  if (customized !== undefined) return customized;
+  const decided = applyEqualsProtocol(a, b, state, depth);
+  if (decided !== undefined) return decided;
+  return classifyContents(a, b, state);
+}
+
+/**
+ * Whether a constructor customizer or `DEEP_EQUALS` may decide the pair, comparing nested values
+ */
+function maySettleNested(a: object, b: object, state: CompareState): boolean {
+  const customizers = state.options.customizers;
+  return customizers !== null && customizers.byConstructor.size !== 0 || isDeepEquatable(a) || isDeepEquatable(b);
+}
+
+/**
+ * The part of `classifyObjects` by type, which compares no nested values
+ */
+function classifyContents(a: object, b: object, state: CompareState): boolean | ContentKind {
+  const options = state.options;
+
+  // Handle arrays (most common case after primitives)
+  if (Array.isArray(a)) return Array.isArray(b) ? 'array' : fail(state, 'typeMismatch', a, b);
+
+  // Other types are told apart by tag, which also recognises values from other realms
+  const tag = typeTag(a);
+
+  // Handle binary data: ArrayBuffer, SharedArrayBuffer and views (TypedArrays, Buffer, DataView)
+  const bytesA = binaryBytes(a, tag);
+  if (bytesA !== null) return compareBinary(a, b, bytesA, state);
+
+  // B needs its own check unless both are plain objects: a shared constructor does not make it of that type
+  if (tag !== (a.constructor === b.constructor && tag === '[object Object]' ? tag : typeTag(b))) {
+    return fail(state, 'typeMismatch', a, b);
+  }
+
+  switch (tag) {
+    case '[object Object]':
+      break;
+
+    // Handle RegExp (ULTRA APPROACH - inline for speed)
+    case '[object RegExp]': {
+      const regexA = a as RegExp;
+      const regexB = b as RegExp;
+      return regexA.source === regexB.source && regexA.flags === regexB.flags ||
+        fail(state, 'changed', a, b);
+    }
+
+    // Handle Date (ULTRA APPROACH - inline for speed)
+    case '[object Date]':
+      return (a as Date).getTime() === (b as Date).getTime() || fail(state, 'changed', a, b);
+
+    // Handle Errors of any class
+    case '[object Error]':
+      return 'error';
+
+    // Handle Sets (OPTIMIZED APPROACH - keep modular for complexity)
+    case '[object Set]':
+      return state.plain && sharesPrimitiveMembers(a as Set<unknown>, b as Set<unknown>, options) || 'set';
+
+    // Handle Maps (OPTIMIZED APPROACH - keep modular for complexity)
+    case '[object Map]':
+      return 'map';
+
+    default: {
+      // Handle built-ins whose state is not in own properties (URL, Headers, Temporal, WeakMap, ...)
+      if (ITERATED_TAGS.has(tag)) return 'iterated';
+      const builtin = builtinComparator(tag);
+      if (builtin !== undefined) return builtin(a, b, state);
+
+      // Handle boxed primitives, checking both sides
+      const primitive = unbox(a, tag);
+      if (primitive !== NOT_BOXED) return compareBoxed(primitive, a, b, state);
+    }
+  }
+
+  // Handle classes converting themselves to a primitive, when asked to
+  if (options.useValueOf && (definesValueOf(a) || definesValueOf(b))) {
+    const converted = compareValueOf(a, b, state);
+    if (converted !== undefined) return converted;
+  }
+
+  // Handle other iterables by the values they produce, when asked to
+  if (options.compareIterables && isIterable(a)) return 'iterated';
+
+  return 'object';
+}
+
+/**
+ * Whether two Sets of the same size hold the same primitives, which makes them equal
+ * without pairing members up. False leaves the Sets to the full comparison.
+ */
+function sharesPrimitiveMembers(setA: Set<unknown>, setB: Set<unknown>, options: RequiredDeepEqualOptions): boolean {
+  if (setA.size !== setB.size) return false;
+  for (const item of setA) {
+    if (!isDirectLookup(item, options) || !setB.has(item)) return false;
+  }
+  return true;
+}
+
+/** Size up to which Sets are first paired up member by member */
+const GREEDY_PAIRING_LIMIT = 16;
+
+/**
+ * Pairs every member of `setA` with the first equal member of `setB` not yet taken.
+ * Pairing them all up makes the Sets equal, and a member equal to none makes them
+ * unequal; anything else is left to the full comparison (undefined), which also finds
+ * the pairings this misses.
+ */
+function pairUpGreedily(
+  setA: Set<unknown>,
+  setB: Set<unknown>,
+  state: CompareState,
+  depth: number
+): boolean | undefined {
+  if (setA.size !== setB.size || setA.size > GREEDY_PAIRING_LIMIT) return undefined;
+  const itemsB = Array.from(setB);
+  let taken = 0;
+  for (const item of setA) {
+    let j = 0;
+    while (j < itemsB.length && ((taken & 1 << j) !== 0 || !deepEqualCore(item, itemsB[j], state, depth + 1))) j++;
+    if (j === itemsB.length) {
+      // Settling here keeps nested Sets from being compared again by the full comparison
+      return itemsB.some((other, k) => (taken & 1 << k) !== 0 && deepEqualCore(item, other, state, depth + 1))
+        ? undefined
+        : false;
+    }
+    taken |= 1 << j;
+  }
+  return true;
+}
+
+/**
+ * Pairs the entries of two Maps by their primitive keys. Equal values under every key
+ * make the Maps equal, and when every key of `mapB` is such a primitive there is no
+ * other pairing to try; anything else is left to the full comparison (undefined).
+ */
+function pairUpByKey(
+  mapA: Map<unknown, unknown>,
+  mapB: Map<unknown, unknown>,
+  state: CompareState,
+  depth: number
+): boolean | undefined {
+  if (mapA.size !== mapB.size) return undefined;
+  const options = state.options;
+  for (const [key, value] of mapA) {
+    if (!isDirectLookup(key, options)) return undefined;
+    if (!mapB.has(key) || !deepEqualCore(value, mapB.get(key), state, depth + 1)) {
+      for (const other of mapB.keys()) {
+        if (!isDirectLookup(other, options)) return undefined;
+      }
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Steps comparing the contents of two objects of the same kind
+ */
+function contentSteps(kind: ContentKind, a: object, b: object, state: CompareState, depth: number): Steps {
+  switch (kind) {
+    case 'array':
+      return arraySteps(a as any[], b as any[], state, depth);
+    case 'object':
+      return propertiesSteps(a as Record<PropertyKey, unknown>, b as Record<PropertyKey, unknown>, state, depth);
+    case 'error':
+      return errorSteps(a as Error, b as Error, state, depth);
+    case 'set':
+      return setSteps(a as Set<any>, b as Set<any>, state, depth);
+    case 'map':
+      return mapSteps(a as Map<any, any>, b as Map<any, any>, state, depth);
+    case 'iterated':
+      return iteratedSteps(a, b, state, depth);
+  }
+}
+
+/**
+ * Array comparison in default mode, following `arrayOrder`, `partial` and the path filters
+ */
+function arraySteps(arrA: any[], arrB: any[], state: CompareState, depth: number): Steps {
+  if (!isArrayOrdered(state)) return arrayUnorderedSteps(arrA, arrB, state, depth);
+  if (state.options.partial) return arrayPartialSteps(arrA, arrB, state, depth);
+  if (hasPathFilter(state.options)) return arrayFilteredSteps(arrA, arrB, state, depth);
+  return orderedSteps(arrA, arrB, arrA, arrB, state, depth);
+}
+
+/**
+ * Compares the items of two sequences position by position. Differing lengths
+ * are reported on `a` and `b`, the values holding the items.
+ */
+function* orderedSteps(
+  a: object,
+  b: object,
+  itemsA: unknown[],
+  itemsB: unknown[],
+  state: CompareState,
+  depth: number
+): Steps {
+  let length = itemsA.length;
+  let equal = true;
+  if (length !== itemsB.length) {
+    if (state.diffs === null) return false;
+    // Keep going over the common prefix so element differences are reported too
+    equal = fail(state, 'lengthMismatch', a, b);
+    length = Math.min(length, itemsB.length);
+  }
+  for (let i = 0; i < length; i++) {
+    if (!(yield nested(itemsA[i], itemsB[i], i, state, depth + 1))) {
+      if (state.diffs === null) return false;
+      equal = false;
+    }
+  }
+  return equal;
+}
+
+/** Error properties compared by `errorSteps` whether or not they are enumerable */
+const ERROR_PROPERTIES = new Set<string | symbol>(['name', 'message', 'cause', 'code', 'errors', 'stack']);
+
+function isErrorProperty(key: string | symbol): boolean {
+  return ERROR_PROPERTIES.has(key);
+}
+
+/**
+ * Compares name, message, `cause`, `code`, `errors` (AggregateError) and, with
+ * `compareErrorStack`, the stack of two errors, then their other own properties
+ */
+function* errorSteps(errA: Error, errB: Error, state: CompareState, depth: number): Steps {
+  let equal = true;
+  for (const key of ERROR_PROPERTIES) {
+    if (key === 'stack' && !state.options.compareErrorStack) continue;
+    const inA = key in errA;
+    if (inA !== key in errB) {
+      // `cause`, `code` and `errors` are optional
+      equal = fail(state, inA ? 'removed' : 'added', (errA as any)[key], (errB as any)[key], key);
+    } else if (inA && !(yield nested((errA as any)[key], (errB as any)[key], key, state, depth + 1))) {
+      equal = false;
+    }
+    if (!equal && state.diffs === null) return false;
+  }
+  return (yield* propertiesSteps(
+    errA as unknown as Record<PropertyKey, unknown>,
+    errB as unknown as Record<PropertyKey, unknown>,
+    state,
+    depth,
+    isErrorProperty
+  )) && equal;
+}
+
+function* setSteps(setA: Set<any>, setB: Set<any>, state: CompareState, depth: number): Steps {
+  const partial = state.options.partial;
+  if ((partial ? setA.size < setB.size : setA.size !== setB.size) && state.diffs === null) {
+    return false;
+  }
+  // Convert to arrays so members can be tracked by index
+  return yield* memberSteps(Array.from(setA), Array.from(setB), setEntrySegment, state, depth);
+}
+
+function* mapSteps(mapA: Map<any, any>, mapB: Map<any, any>, state: CompareState, depth: number): Steps {
+  if (hasPathFilter(state.options)) {
+    const filteredA = filterMapEntries(mapA, mapB, state);
+    mapB = filterMapEntries(mapB, mapA, state);
+    mapA = filteredA;
+  }
+  const partial = state.options.partial;
+  if ((partial ? mapA.size < mapB.size : mapA.size !== mapB.size) && state.diffs === null) {
+    return false;
+  }
+  return yield* mapEntrySteps(mapA, mapB, state, depth);
+}
+
+/** Byte length from which `bytesEqual` compares four bytes at a time */
+const WORD_COMPARE_THRESHOLD = 64;
+
+/**
+ * Compares two byte ranges, a 32-bit word at a time when both start at a
+ * 4-byte boundary (the common case for whole buffers and Node's pool slices)
+ */
+function bytesEqual(bytesA: Uint8Array, bytesB: Uint8Array): boolean {
+  const length = bytesA.length;
+  if (length !== bytesB.length) return false;
+  let i = 0;
+  if (length >= WORD_COMPARE_THRESHOLD && bytesA.byteOffset % 4 === 0 && bytesB.byteOffset % 4 === 0) {
+    const wordCount = length >>> 2;
+    const wordsA = new Uint32Array(bytesA.buffer, bytesA.byteOffset, wordCount);
+    const wordsB = new Uint32Array(bytesB.buffer, bytesB.byteOffset, wordCount);
+    for (let w = 0; w < wordCount; w++) {
+      if (wordsA[w] !== wordsB[w]) return false;
+    }
+    i = wordCount << 2;
+  }
+  for (; i < length; i++) {
+    if (bytesA[i] !== bytesB[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * The bytes of an ArrayBuffer, SharedArrayBuffer or view (TypedArray, Buffer,
+ * DataView), limited to the range a view covers; null for anything else
+ */
+export function binaryBytes(value: object, tag: string = typeTag(value)): Uint8Array | null {
+  if (ArrayBuffer.isView(value)) return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+  if (tag === '[object ArrayBuffer]' || tag === '[object SharedArrayBuffer]') {
+    return new Uint8Array(value as ArrayBuffer);
+  }
+  return null;
+}
+
+/**
+ * Whether two binary values are of the same type: same tag, and the same
+ * constructor or one of the same name in another realm (so a Buffer is not a
+ * Uint8Array, while Uint8Arrays of two realms are)
+ */
+function isSameBinaryType(a: object, b: object, tag: string): boolean {
+  if (tag !== typeTag(b)) return false;
+  return a.constructor === b.constructor ||
+    typeof a.constructor === 'function' && typeof b.constructor === 'function' && a.constructor.name === b.constructor.name;
+}
+
+export function isFloatArrayTag(tag: string): boolean {
+  return tag === '[object Float64Array]' || tag === '[object Float32Array]';
+}
+
+/**
+ * Compares binary data. Both values must be of the same type unless
+ * `compareBufferBytes` is set; float arrays compare element-wise (honouring
+ * `nanEqual`), everything else byte-wise.
+ */
+function compareBinary(a: object, b: object, bytesA: Uint8Array, state: CompareState): boolean {
+  const bytesB = binaryBytes(b);
+  if (bytesB === null) return fail(state, 'typeMismatch', a, b);
+  if (!state.options.compareBufferBytes) {
+    const tag = typeTag(a);
+    if (!isSameBinaryType(a, b, tag)) return fail(state, 'constructorMismatch', a, b);
+    // Element-wise comparison: floats need it, and diffs get reported per index
+    if (ArrayBuffer.isView(a) && tag !== '[object DataView]' &&
+        (state.diffs !== null || isFloatArrayTag(tag) || hasNumericTolerance(state.options))) {
+      return compareTypedArrayElements(a as any, b as any, state);
+    }
+  }
+  if (bytesA.length !== bytesB.length) return fail(state, 'lengthMismatch', a, b);
+  return bytesEqual(bytesA, bytesB) || fail(state, 'changed', a, b);
+}
+
+function compareTypedArrayElements(arrA: ArrayLike<unknown>, arrB: ArrayLike<unknown>, state: CompareState): boolean {
+  if (arrA.length !== arrB.length) {
+    return fail(state, 'lengthMismatch', arrA, arrB);
+  }
+
+  const options = state.options;
+  const tolerant = hasNumericTolerance(options);
+  // Tolerances only need looking up per element when they depend on the path
+  const perElement = options.pathTolerances.length !== 0 && state.path !== null;
+  const tolerance = tolerant && !perElement ? toleranceAt(state) : null;
+  const single = typeTag(arrA) === '[object Float32Array]';
+  let equal = true;
+  for (let i = 0; i < arrA.length; i++) {
+    const valA = arrA[i];
+    const valB = arrB[i];
+
+    if (valA === valB) {
+      if (!options.strictZero || valA !== 0 || 1 / (valA as number) === 1 / (valB as number)) continue;
+    } else if (typeof valA === 'number' && typeof valB === 'number') {
+      // Handle NaN in typed arrays
+      if (options.nanEqual && Number.isNaN(valA) && Number.isNaN(valB)) continue;
+      if (tolerant) {
+        let elementTolerance = tolerance;
+        if (elementTolerance === null) {
+          state.path!.push(i);
+          elementTolerance = toleranceAt(state);
+          leavePath(state);
+        }
+        if (withinTolerance(valA, valB, elementTolerance, single)) continue;
+      }
+    }
+    if (state.diffs === null) return false;
+    equal = fail(state, 'changed', valA, valB, i);
+  }
+  return equal;
+}
+
+/**
+ * Tolerance for numbers at the current path: the first matching `pathTolerances`
+ * entry, or else the top-level options
+ */
+function toleranceAt(state: CompareState): Required<NumericTolerance> {
+  const pathTolerances = state.options.pathTolerances;
+  for (let i = 0; i < pathTolerances.length; i++) {
+    if (matchTrackedPath(state.pathMatcher!, pathTolerances[i][0], state.path!, true)) return pathTolerances[i][1];
+  }
+  return state.options;
+}
+
+/**
+ * Whether two distinct finite numbers lie within any of the tolerances.
+ * `single` measures ulps between single-precision floats.
+ */
+function withinTolerance(a: number, b: number, tolerance: Required<NumericTolerance>, single: boolean): boolean {
+  if (!Number.isFinite(a) || !Number.isFinite(b)) return false;
+  const difference = Math.abs(a - b);
+  return difference <= tolerance.epsilon ||
+    difference <= tolerance.relativeTolerance * Math.max(Math.abs(a), Math.abs(b)) ||
+    tolerance.ulps > 0 && ulpDistance(a, b, single) <= tolerance.ulps;
+}
+
+const float64Scratch = new Float64Array(1);
+const int64Scratch = new BigInt64Array(float64Scratch.buffer);
+const float32Scratch = new Float32Array(1);
+const int32Scratch = new Int32Array(float32Scratch.buffer);
+
+/**
+ * Number of representable floats between two finite numbers. Sign-magnitude bit
+ * patterns are mapped onto a signed scale where consecutive floats are consecutive
+ * integers and both zeros sit at 0.
+ */
+function ulpDistance(a: number, b: number, single: boolean): number {
+  if (single) {
+    float32Scratch[0] = a;
+    const bitsA = int32Scratch[0];
+    float32Scratch[0] = b;
+    const bitsB = int32Scratch[0];
+    return Math.abs((bitsA < 0 ? -(bitsA & 0x7fffffff) : bitsA) - (bitsB < 0 ? -(bitsB & 0x7fffffff) : bitsB));
+  }
+  float64Scratch[0] = a;
+  let bitsA = int64Scratch[0];
+  float64Scratch[0] = b;
+  let bitsB = int64Scratch[0];
+  if (bitsA < 0n) bitsA = -(bitsA & 0x7fffffffffffffffn);
+  if (bitsB < 0n) bitsB = -(bitsB & 0x7fffffffffffffffn);
+  const distance = bitsA - bitsB;
+  return Number(distance < 0n ? -distance : distance);
+}
+
+function floatsEqual(floatsA: Float32Array | Float64Array, floatsB: Float32Array | Float64Array): boolean {
+  for (let i = 0; i < floatsA.length; i++) {
+    if (floatsA[i] !== floatsB[i]) return false;
+  }
+  return true;
+}
+
+const objectToString = Object.prototype.toString;
+
+/**
+ * `===` between primitives, adjusted by `nanEqual` and `strictZero`
+ */
+function primitivesEqual(a: unknown, b: unknown, options: RequiredDeepEqualOptions): boolean {
+  if (a === b) return !options.strictZero || a !== 0 || 1 / (a as number) === 1 / (b as number);
+  return options.nanEqual && a !== a && b !== b;
+}
+
+/**
+ * Compares a boxed primitive with B, which must box a primitive of the same type
+ */
+function compareBoxed(primitiveA: unknown, a: object, b: object, state: CompareState): boolean {
+  const primitiveB = unbox(b);
+  if (primitiveB === NOT_BOXED || typeof primitiveA !== typeof primitiveB) {
+    return fail(state, 'typeMismatch', a, b);
+  }
+  return primitivesEqual(primitiveA, primitiveB, state.options) || fail(state, 'changed', a, b);
+}
+
+/**
+ * `useValueOf` comparison of instances of the same class by their `valueOf()`.
+ * Returns undefined, for the structural comparison, when either result is an object.
+ */
+function compareValueOf(a: object, b: object, state: CompareState): boolean | undefined {
+  if (a.constructor !== b.constructor) return fail(state, 'constructorMismatch', a, b);
+  const valueA: unknown = a.valueOf();
+  const valueB: unknown = b.valueOf();
+  if (typeof valueA === 'object' && valueA !== null || typeof valueB === 'object' && valueB !== null) {
+    return undefined;
+  }
+  return primitivesEqual(valueA, valueB, state.options) || fail(state, 'changed', a, b);
+}
+
+/** Compares two built-ins of the same type tag */
+type BuiltinComparator = (a: object, b: object, state: CompareState) => boolean;
+
+/**
+ * Values compared by identity only: their contents cannot be inspected (weak
+ * collections, WeakRef) or are not available synchronously (Promise). Identical
+ * values never get this far, and neither do functions, which are not objects here.
+ */
+function compareIdentity(a: object, b: object, state: CompareState): boolean {
+  return fail(state, 'changed', a, b);
+}
+
+function compareHref(a: object, b: object, state: CompareState): boolean {
+  return (a as URL).href === (b as URL).href || fail(state, 'changed', a, b);
+}
+
+function isIterable(value: object): value is Iterable<unknown> {
+  return typeof (value as Partial<Iterable<unknown>>)[Symbol.iterator] === 'function';
+}
+
+/**
+ * Compares the values two iterables produce, in order: the `[name, value]`
+ * entries of URLSearchParams, Headers and FormData, or with `compareIterables`
+ * the values of any other iterable
+ */
+function* iteratedSteps(a: object, b: object, state: CompareState, depth: number): Steps {
+  if (!isIterable(b)) return fail(state, 'typeMismatch', a, b);
+  return yield* orderedSteps(a, b, Array.from(a as Iterable<unknown>), Array.from(b), state, depth);
+}
+
+/**
+ * Temporal values compare with their own `equals` where they have one (so
+ * calendars and time zones count); Durations compare by their ISO string
+ */
+function compareTemporal(a: object, b: object, state: CompareState): boolean {
+  const temporalA = a as { equals?: (other: unknown) => boolean };
+  const equal = typeof temporalA.equals === 'function' ? temporalA.equals(b) : String(a) === String(b);
+  return equal || fail(state, 'changed', a, b);
+}
+
+const BUILTIN_COMPARATORS: Record<string, BuiltinComparator> = {
+  '[object URL]': compareHref,
+  '[object WeakMap]': compareIdentity,
+  '[object WeakSet]': compareIdentity,
+  '[object WeakRef]': compareIdentity,
+  '[object Promise]': compareIdentity,
+};
+
+/** Built-ins compared by the `[name, value]` entries they iterate */
+const ITERATED_TAGS = new Set(['[object URLSearchParams]', '[object Headers]', '[object FormData]']);
+
+function builtinComparator(tag: string): BuiltinComparator | undefined {
+  if (tag.startsWith('[object Temporal.')) return compareTemporal;
+  return Object.prototype.hasOwnProperty.call(BUILTIN_COMPARATORS, tag) ? BUILTIN_COMPARATORS[tag] : undefined;
+}
+
+/** Error properties Node compares even when they are not enumerable */
+const ERROR_FIELDS = ['message', 'name', 'cause', 'errors'] as const;
+
+/**
+ * Object comparison for the `'strict'` and `'loose'` modes, following Node's
+ * `assert.deepStrictEqual` and `assert.deepEqual`: same `Object.prototype.toString`
+ * tag (and prototype when checked), type-specific contents, then the own
+ * enumerable properties of every kind of object
+ */
+function compareAssertStyle(a: object, b: object, state: CompareState, depth: number): boolean {
+  const tag = enterAssertPair(a, b, state);
+  if (typeof tag === 'boolean') return tag;
+  const equal = compareAssertPlain(a, b, tag, state, depth) ?? runSteps(assertContentsSteps(a, b, tag, state, depth));
+  leaveAssertPair(a, b, state);
+  return equal;
+}
+
+/**
+ * Decides a pair from its types or the objects under comparison, or else adds it
+ * to them and returns the type tag for its contents to be compared before
+ * `leaveAssertPair`
+ */
+function enterAssertPair(a: object, b: object, state: CompareState): boolean | string {
+  if (state.options.compareBufferBytes) {
+    const bytesA = binaryBytes(a);
+    if (bytesA !== null) return compareBinary(a, b, bytesA, state);
+  }
+  if (state.options.checkPrototypes && Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+    return fail(state, 'constructorMismatch', a, b);
+  }
+  const claimed = objectToString.call(a);
+  if (claimed !== objectToString.call(b)) return fail(state, 'typeMismatch', a, b);
+  // Like Node, contents are compared by the type each object really is
+  const tag = checkedTag(a, claimed);
+  if (tag !== checkedTag(b, claimed)) return fail(state, 'typeMismatch', a, b);
+
+  // Like Node, values already under comparison on either side end the recursion
+  const stack = state.stack!;
+  const size = stack.size;
+  stack.add(a);
+  stack.add(b);
+  return stack.size === size || tag;
+}
+
+/**
+ * Inline counterpart of `assertContentsSteps` for plain objects and arrays in order,
+ * the common cases; undefined for anything else
+ */
+function compareAssertPlain(a: object, b: object, tag: string, state: CompareState, depth: number): boolean | undefined {
+  const options = state.options;
+  if (options.customizers !== null || isDeepEquatable(a) || isDeepEquatable(b)) return undefined;
+  if (Array.isArray(a)) {
+    if (!isArrayOrdered(state) || options.partial || hasPathFilter(options)) return undefined;
+    const equal = compareArrayWithHoles(a, b as any[], state, depth);
+    if (!equal && state.diffs === null) return false;
+    return compareObjectOptimized(a as any, b as Record<PropertyKey, unknown>, state, depth, isArrayIndex) && equal;
+  }
+  if (tag !== '[object Object]' || options.useValueOf || options.compareIterables) return undefined;
+  return compareObjectOptimized(a as Record<PropertyKey, unknown>, b as Record<PropertyKey, unknown>, state, depth);
+}
+
+function leaveAssertPair(a: object, b: object, state: CompareState): void {
+  state.stack!.delete(a);
+  state.stack!.delete(b);
+}
+
+function* assertContentsSteps(a: object, b: object, tag: string, state: CompareState, depth: number): Steps {
+  const customized = applyConstructorCustomizer(a, b, state, depth);
+  if (customized !== undefined) return customized;
+  const decided = applyEqualsProtocol(a, b, state, depth);
+  if (decided !== undefined) return decided;
+
+  let equal = true;
+  let skipKey: ((key: string | symbol) => boolean) | null = null;
+  const builtin = builtinComparator(tag);
+  const primitive = unbox(a, tag);
+  if (Array.isArray(a)) {
+    if (!isArrayOrdered(state)) {
+      // Positions do not matter, so neither do holes: they read as undefined
+      equal = yield* arrayUnorderedSteps(a, b as any[], state, depth);
+    } else {
+      if (state.options.partial) return yield* arrayPartialSteps(a, b as any[], state, depth);
+      if (hasPathFilter(state.options)) return yield* arrayFilteredSteps(a, b as any[], state, depth);
+      equal = yield* arrayWithHolesSteps(a, b as any[], state, depth);
+    }
+    skipKey = isArrayIndex;
+  } else if (ArrayBuffer.isView(a)) {
+    const viewA = binaryBytes(a)!;
+    const viewB = binaryBytes(b)!;
+    if (viewA.length !== viewB.length) {
+      equal = fail(state, 'lengthMismatch', a, b);
+    } else if (hasNumericTolerance(state.options) && tag !== '[object DataView]') {
+      equal = compareTypedArrayElements(a as Float64Array, b as Float64Array, state);
+    } else if (state.options.mode === 'loose' && isFloatArrayTag(tag)) {
+      // Loose mode compares float elements with `===`: 0 equals -0, NaN equals nothing
+      equal = floatsEqual(a as Float64Array, b as Float64Array) || fail(state, 'changed', a, b);
+    } else {
+      equal = bytesEqual(viewA, viewB) || fail(state, 'changed', a, b);
+    }
+    skipKey = isArrayIndex;
+  } else if (tag === '[object Date]') {
+    equal = Date.prototype.getTime.call(a) === Date.prototype.getTime.call(b) || fail(state, 'changed', a, b);
+  } else if (tag === '[object RegExp]') {
+    const regexA = a as RegExp;
+    const regexB = b as RegExp;
+    equal = regexA.source === regexB.source && regexA.flags === regexB.flags &&
+      regexA.lastIndex === regexB.lastIndex || fail(state, 'changed', a, b);
+  } else if (tag === '[object Error]') {
+    equal = yield* errorFieldSteps(a as Error, b as Error, state, depth);
+  } else if (tag === '[object Set]') {
+    equal = yield* setSteps(a as Set<any>, b as Set<any>, state, depth);
+  } else if (tag === '[object Map]') {
+    equal = yield* mapSteps(a as Map<any, any>, b as Map<any, any>, state, depth);
+  } else if (tag === '[object ArrayBuffer]' || tag === '[object SharedArrayBuffer]') {
+    equal = bytesEqual(binaryBytes(a)!, binaryBytes(b)!) || fail(state, 'changed', a, b);
+  } else if (ITERATED_TAGS.has(tag)) {
+    equal = yield* iteratedSteps(a, b, state, depth);
+  } else if (builtin !== undefined) {
+    equal = builtin(a, b, state);
+  } else if (primitive !== NOT_BOXED) {
+    const primitiveB = unbox(b, tag);
+    equal = primitiveB === NOT_BOXED
+      ? fail(state, 'typeMismatch', a, b)
+      : Object.is(primitive, primitiveB) || fail(state, 'changed', a, b);
+  } else if (state.options.useValueOf && (definesValueOf(a) || definesValueOf(b))) {
+    const converted = compareValueOf(a, b, state);
+    if (converted !== undefined) equal = converted;
+  } else if (state.options.compareIterables && isIterable(a)) {
+    // The iterated values stand in for the own properties
+    return yield* iteratedSteps(a, b, state, depth);
+  }
+
+  if (!equal && state.diffs === null) return false;
+  return (yield* propertiesSteps(
+    a as Record<PropertyKey, unknown>,
+    b as Record<PropertyKey, unknown>,
+    state,
+    depth,
+    skipKey
+  )) && equal;
+}
+
+/**
+ * Array elements as Node compares them: lengths and holes must match, values of
+ * present elements must be equal. Non-index properties are compared by the caller.
+ */
+function compareArrayWithHoles(arrA: any[], arrB: any[], state: CompareState, depth: number): boolean {
+  if (arrA.length !== arrB.length) return fail(state, 'lengthMismatch', arrA, arrB);
+  let equal = true;
+  for (let i = 0; i < arrA.length; i++) {
+    const hasA = Object.prototype.hasOwnProperty.call(arrA, i);
+    const hasB = Object.prototype.hasOwnProperty.call(arrB, i);
+    if (hasA !== hasB && !state.options.undefinedEqualsMissing) {
+      equal = fail(state, hasA ? 'removed' : 'added', arrA[i], arrB[i], i);
+    } else if ((hasA || hasB) && !compareChild(arrA[i], arrB[i], i, state, depth + 1)) {
+      equal = false;
+    }
+    if (!equal && state.diffs === null) return false;
+  }
+  return equal;
+}
+
+/**
+ * Steps counterpart of `compareArrayWithHoles`
+ */
+function* arrayWithHolesSteps(arrA: any[], arrB: any[], state: CompareState, depth: number): Steps {
+  if (arrA.length !== arrB.length) return fail(state, 'lengthMismatch', arrA, arrB);
+  let equal = true;
+  for (let i = 0; i < arrA.length; i++) {
+    const hasA = Object.prototype.hasOwnProperty.call(arrA, i);
+    const hasB = Object.prototype.hasOwnProperty.call(arrB, i);
+    if (hasA !== hasB && !state.options.undefinedEqualsMissing) {
+      equal = fail(state, hasA ? 'removed' : 'added', arrA[i], arrB[i], i);
+    } else if ((hasA || hasB) && !(yield nested(arrA[i], arrB[i], i, state, depth + 1))) {
+      equal = false;
+    }
+    if (!equal && state.diffs === null) return false;
+  }
+  return equal;
+}
+
+/**
+ * Compares the error properties Node checks beyond the enumerable ones. Each must
+ * be enumerable on both sides (compared with the other properties) or on neither.
+ */
+function* errorFieldSteps(errA: Error, errB: Error, state: CompareState, depth: number): Steps {
+  let equal = true;
+  for (const field of ERROR_FIELDS) {
+    const enumerable = Object.prototype.propertyIsEnumerable.call(errA, field);
+    if (enumerable !== Object.prototype.propertyIsEnumerable.call(errB, field)) {
+      equal = fail(state, 'descriptorMismatch', (errA as any)[field], (errB as any)[field], field);
+    } else if (!enumerable) {
+      const valueA = (errA as any)[field];
+      const valueB = (errB as any)[field];
+      if (field === 'message' || field === 'name') {
+        if (valueA !== valueB) equal = fail(state, 'changed', valueA, valueB, field);
+      } else if (!(yield nested(valueA, valueB, field, state, depth + 1))) {
+        equal = false;
+      }
+    }
+    if (!equal && state.diffs === null) return false;
+  }
+  return equal;
+}
+
+/**
+ * Array comparison honouring `ignorePaths`/`onlyPaths`: excluded indices are
+ * skipped, so lengths only matter for elements that are compared
+ */
+function* arrayFilteredSteps(
+  arrA: any[],
+  arrB: any[],
+  state: CompareState,
+  depth: number
+): Steps {
+  const length = Math.max(arrA.length, arrB.length);
+  let equal = true;
+  for (let i = 0; i < length; i++) {
+    if (isPathExcluded(state, i, arrA[i], arrB[i])) continue;
+    if (i >= arrB.length && state.options.partial && state.options.partialArrays === 'prefix') continue;
+    if (i >= arrA.length || i >= arrB.length) {
+      // Element present on one side only
+      if (state.diffs === null) return false;
+      equal = fail(state, i >= arrA.length ? 'added' : 'removed', arrA[i], arrB[i], i);
+    } else if (!(yield nested(arrA[i], arrB[i], i, state, depth + 1))) {
+      if (state.diffs === null) return false;
+      equal = false;
+    }
+  }
+  return equal;
+}
+
+/**
+ * Drops Map entries whose path is excluded by `ignorePaths`/`onlyPaths`
+ */
+function filterMapEntries(map: Map<any, any>, other: Map<any, any>, state: CompareState): Map<any, any> {
+  const filtered = new Map<any, any>();
+  for (const [key, value] of map) {
+    if (!isPathExcluded(state, { kind: 'map-key', key }, value, other.get(key))) {
+      filtered.set(key, value);
+    }
+  }
+  return filtered;
+}
+
+/**
+ * Pairs every outer member with a distinct inner member whose comparison by
+ * `matches` holds and returns, for each outer member, the index of its partner or -1.
+ * Matching is greedy unless `augment` is set, in which case earlier pairings are
+ * revisited (augmenting paths) so that relations that are not equivalences,
+ * such as partial matching, still find a pairing when one exists.
+ * Unless `exhaustive` is set, it stops at the first member left without a partner.
+ * `candidatesOf` narrows the inner members an outer member is tried against, null
+ * for all of them, and `outerMatch` may hold pairs made beforehand.
+ */
+function* matchingSteps(
+  outerCount: number,
+  innerCount: number,
+  matches: (outerIndex: number, innerIndex: number) => Steps,
+  augment: boolean,
+  exhaustive: boolean,
+  candidatesOf: (outerIndex: number) => ReadonlyArray<readonly number[]> | null = () => null,
+  outerMatch: number[] = new Array<number>(outerCount).fill(-1)
+): Steps<number[]> {
+  const innerMatch = new Array<number>(innerCount).fill(-1);
+  for (let i = 0; i < outerCount; i++) {
+    if (outerMatch[i] !== -1) innerMatch[outerMatch[i]] = i;
+  }
+  const cache = augment ? new Map<number, boolean>() : null;
+  let everyInner: ReadonlyArray<readonly number[]> | null = null;
+
+  function* test(i: number, j: number): Steps {
+    if (cache === null) return yield* matches(i, j);
+    const cacheKey = i * innerCount + j;
+    let result = cache.get(cacheKey);
+    if (result === undefined) {
+      result = yield* matches(i, j);
+      cache.set(cacheKey, result);
+    }
+    return result;
+  }
+
+  function* assign(i: number, visited: Uint8Array): Steps {
+    const lists = candidatesOf(i) ?? (everyInner ??= [Array.from({ length: innerCount }, (_, j) => j)]);
+    // Prefer members that are still free before trying to re-pair taken ones
+    for (const list of lists) {
+      for (const j of list) {
+        if (innerMatch[j] === -1 && !visited[j] && (yield* test(i, j))) {
+          visited[j] = 1;
+          innerMatch[j] = i;
+          outerMatch[i] = j;
+          return true;
+        }
+      }
+    }
+    if (!augment) return false;
+    for (const list of lists) {
+      for (const j of list) {
+        if (innerMatch[j] !== -1 && !visited[j] && (yield* test(i, j))) {
+          visited[j] = 1;
+          if (yield* assign(innerMatch[j], visited)) {
+            innerMatch[j] = i;
+            outerMatch[i] = j;
+            return true;
+          }
+        }
+      }
+    }
+    return false;
+  }
+
+  for (let i = 0; i < outerCount; i++) {
+    if (outerMatch[i] === -1 && !(yield* assign(i, new Uint8Array(innerCount))) && !exhaustive) break;
+  }
+  return outerMatch;
+}
+
+/**
+ * Whether members may relate to each other in ways that are not an equivalence, so
+ * that a greedy pairing can miss one: numbers within a tolerance, and members that
+ * contain asymmetric matchers or decide their own equality
+ */
+function mayNeedAugmenting(items: readonly unknown[], options: RequiredDeepEqualOptions): boolean {
+  return hasNumericTolerance(options) || items.some(item => structuralHash(item, options) === null);
+}
+
+/** Lookup key standing in for -0 so that it stays apart from +0 under `strictZero` */
+const NEGATIVE_ZERO = Symbol('-0');
+
+/**
+ * Whether a value can be paired by identity through a native Map/Set lookup
+ */
+function isDirectLookup(value: unknown, options: RequiredDeepEqualOptions): boolean {
+  if (value !== null && (typeof value === 'object' || typeof value === 'function')) return false;
+  if (typeof value === 'number' && hasNumericTolerance(options)) return false;
+  return options.nanEqual || value === value;
+}
+
+function lookupKey(value: unknown, options: RequiredDeepEqualOptions): unknown {
+  return options.strictZero && value === 0 && 1 / value < 0 ? NEGATIVE_ZERO : value;
+}
+
+function addToBucket<K, V>(buckets: Map<K, V[]>, key: K, value: V): void {
+  const bucket = buckets.get(key);
+  if (bucket) {
+    bucket.push(value);
+  } else {
+    buckets.set(key, [value]);
+  }
+}
+
+/**
+ * Hash-based counterpart of `matchingSteps`. Primitives are paired by identity
+ * through a native Map in O(1); other members are only compared with members in
+ * the same `structuralHash` bucket, plus members containing asymmetric matchers,
+ * which may equal anything. Pairings are revisited when there are such wildcards
+ * or numeric tolerances, as the members then need not be equivalent.
+ */
+function* hashedMatchingSteps(
+  outer: any[],
+  inner: any[],
+  matches: (outerIndex: number, innerIndex: number) => Steps,
+  options: RequiredDeepEqualOptions,
+  exhaustive: boolean
+): Steps<number[]> {
+  const primitives = new Map<unknown, number[]>();
+  const buckets = new Map<number, number[]>();
+  const wildcards: number[] = [];
+
+  for (let j = 0; j < inner.length; j++) {
+    const item = inner[j];
+    if (isDirectLookup(item, options)) {
+      addToBucket(primitives, lookupKey(item, options), j);
+      continue;
+    }
+    const hash = structuralHash(item, options);
+    if (hash === null) {
+      wildcards.push(j);
+    } else {
+      addToBucket(buckets, hash, j);
+    }
+  }
+
+  // Identical primitives are paired first: they are equal without any further comparison
+  const outerMatch = new Array<number>(outer.length).fill(-1);
+  const paired = new Map<unknown, number>();
+  const candidates = new Array<ReadonlyArray<readonly number[]> | null>(outer.length);
+  let augment = wildcards.length !== 0 || hasNumericTolerance(options);
+  for (let i = 0; i < outer.length; i++) {
+    const item = outer[i];
+    if (isDirectLookup(item, options)) {
+      // Primitives without an identical partner can still satisfy a matcher
+      const key = lookupKey(item, options);
+      const identical = primitives.get(key);
+      if (identical === undefined) {
+        candidates[i] = [wildcards];
+        continue;
+      }
+      candidates[i] = [identical, wildcards];
+      const count = paired.get(key) ?? 0;
+      if (count < identical.length) {
+        outerMatch[i] = identical[count];
+        paired.set(key, count + 1);
+      }
+      continue;
+    }
+    const hash = structuralHash(item, options);
+    if (hash === null) {
+      candidates[i] = null;
+      augment = true;
+    } else {
+      const bucket = buckets.get(hash);
+      candidates[i] = bucket ? [bucket, wildcards] : [wildcards];
+    }
+  }
+
+  return yield* matchingSteps(outer.length, inner.length, matches, augment, exhaustive, i => candidates[i], outerMatch);
+}
+
+/**
+ * Order-independent comparison of Set members or array elements. Every member of A
+ * must consume a distinct member of B; in partial mode every member of B (the
+ * expected side) must consume a distinct member of A instead.
+ */
+function* memberSteps(
+  itemsA: any[],
+  itemsB: any[],
+  segmentFor: (item: unknown, index: number) => PathSegment,
+  state: CompareState,
+  depth: number
+): Steps {
+  const partial = state.options.partial;
+  const outer = partial ? itemsB : itemsA;
+  const inner = partial ? itemsA : itemsB;
+
+  // Each trial gets a fresh state to avoid interference between attempts
+  function* matches(i: number, j: number): Steps {
+    const trialState = createTrialState(state, segmentFor(outer[i], i));
+    return yield partial
+      ? nested(inner[j], outer[i], undefined, trialState, depth + 1)
+      : nested(outer[i], inner[j], undefined, trialState, depth + 1);
+  }
+  const options = state.options;
+  const exhaustive = state.diffs !== null;
+  const outerMatch = !partial && canUseHashing(options)
+    ? yield* hashedMatchingSteps(outer, inner, matches, options, exhaustive)
+    : yield* matchingSteps(outer.length, inner.length, matches,
+      partial || mayNeedAugmenting(outer, options) || mayNeedAugmenting(inner, options), exhaustive);
+
+  let equal = true;
+  for (let i = 0; i < outer.length; i++) {
+    if (outerMatch[i] === -1) {
+      if (state.diffs === null) return false;
+      equal = partial
+        ? fail(state, 'added', undefined, outer[i], segmentFor(outer[i], i))
+        : fail(state, 'removed', outer[i], undefined, segmentFor(outer[i], i));
+    }
+  }
+
+  // Leftover members of B only matter when the collections must be the same size
+  if (state.diffs !== null && !partial) {
+    const matchedB = new Set(outerMatch);
+    for (let j = 0; j < inner.length; j++) {
+      if (!matchedB.has(j)) {
+        equal = fail(state, 'added', undefined, inner[j], segmentFor(inner[j], j));
+      }
+    }
+  }
+  return equal;
+}
+
+function setEntrySegment(value: unknown): PathSegment {
+  return { kind: 'set-entry', value };
+}
+
+/**
+ * Whether the order of the array at the current path matters: the first matching
+ * `arrayOrderPaths` entry decides, or else `arrayOrder`
+ */
+function isArrayOrdered(state: CompareState): boolean {
+  const { arrayOrder, arrayOrderPaths } = state.options;
+  for (let i = 0; i < arrayOrderPaths.length; i++) {
+    if (matchTrackedPath(state.pathMatcher!, arrayOrderPaths[i][0], state.path!)) return arrayOrderPaths[i][1] === 'strict';
+  }
+  return arrayOrder === 'strict';
+}
+
+/**
+ * Multiset comparison of arrays whose order does not matter, sharing the member
+ * matching of Sets. In partial mode the expected elements must be found in A, and
+ * unless `partialArrays` is `'exact'` A may have more elements.
+ */
+function* arrayUnorderedSteps(arrA: any[], arrB: any[], state: CompareState, depth: number): Steps {
+  const { partial, partialArrays } = state.options;
+  const sameLength = !partial || partialArrays === 'exact';
+  // Unpaired elements are reported individually, so only boolean comparisons stop here
+  if (state.diffs === null && (sameLength ? arrA.length !== arrB.length : arrA.length < arrB.length)) {
+    return false;
+  }
+  const equal = yield* memberSteps(arrA, arrB, (_item, index) => index, state, depth);
+  if (partial && sameLength && arrA.length > arrB.length) {
+    return fail(state, 'lengthMismatch', arrA, arrB);
+  }
+  return equal;
+}
+
+/**
+ * Array comparison in partial mode, following `partialArrays`
+ */
+function* arrayPartialSteps(
+  arrA: any[],
+  arrB: any[],
+  state: CompareState,
+  depth: number
+): Steps {
+  const mode = state.options.partialArrays;
+  if (mode === 'subset') {
+    return yield* memberSteps(arrA, arrB, (_item, index) => index, state, depth);
+  }
+  if (hasPathFilter(state.options)) {
+    return yield* arrayFilteredSteps(arrA, arrB, state, depth);
+  }
+  if (mode === 'exact' ? arrA.length !== arrB.length : arrA.length < arrB.length) {
+    return fail(state, 'lengthMismatch', arrA, arrB);
+  }
+  // Only the expected elements are compared; extra trailing elements are allowed in prefix mode
+  let equal = true;
+  for (let i = 0; i < arrB.length; i++) {
+    if (!(yield nested(arrA[i], arrB[i], i, state, depth + 1))) {
+      if (state.diffs === null) return false;
+      equal = false;
+    }
+  }
+  return equal;
+}
+
+/**
+ * Whether a Map entry of A matches a Map entry of B (keys and values)
+ */
+function* entrySteps(
+  keyA: unknown,
+  valueA: unknown,
+  keyB: unknown,
+  valueB: unknown,
+  state: CompareState,
+  depth: number
+): Steps {
+  return (yield nested(keyA, keyB, undefined, state, depth + 1)) &&
+    (yield nested(valueA, valueB, { kind: 'map-key', key: keyA }, state, depth + 1));
+}
+
+/**
+ * Hash buckets over the non-primitive keys of a Map; primitive keys are
+ * found with the Map's own `has`
+ */
+interface KeyIndex {
+  buckets: Map<number, unknown[]>;
+  /** Keys containing asymmetric matchers, which may equal anything */
+  wildcards: unknown[];
+}
+
+function indexMapKeys(map: Map<any, any>, options: RequiredDeepEqualOptions): KeyIndex {
+  const index: KeyIndex = { buckets: new Map(), wildcards: [] };
+  for (const key of map.keys()) {
+    if (isDirectLookup(key, options)) continue;
+    const hash = structuralHash(key, options);
+    if (hash === null) {
+      index.wildcards.push(key);
+    } else {
+      addToBucket(index.buckets, hash, key);
+    }
+  }
+  return index;
+}
+
+/**
+ * Keys of `map` that may equal `key`; every key when there is no index
+ */
+function candidateKeys(
+  key: unknown,
+  map: Map<any, any>,
+  index: KeyIndex | null,
+  options: RequiredDeepEqualOptions
+): unknown[] {
+  if (index === null) return Array.from(map.keys());
+  if (isDirectLookup(key, options)) {
+    return map.has(key) ? [key, ...index.wildcards] : index.wildcards;
+  }
+  const hash = structuralHash(key, options);
+  if (hash === null) return Array.from(map.keys());
+  const bucket = index.buckets.get(hash);
+  return bucket ? bucket.concat(index.wildcards) : index.wildcards;
+}
+
+const NO_MATCH = Symbol('no match');
+
+/**
+ * Finds the key of an inner entry, not consumed yet, that matches the outer
+ * entry, or NO_MATCH. In partial mode the inner Map is A (actual) and the
+ * outer one B (expected).
+ */
+function* entryMatchSteps(
+  outerKey: unknown,
+  outerValue: unknown,
+  inner: Map<any, any>,
+  index: KeyIndex | null,
+  consumed: Set<unknown>,
+  state: CompareState,
+  depth: number
+): Steps<unknown> {
+  const partial = state.options.partial;
+  const candidates = candidateKeys(outerKey, inner, index, state.options).filter(key => !consumed.has(key));
+
+  // A single identical primitive key needs no trial: its value comparison decides
+  if (index !== null && candidates.length === 1 && candidates[0] === outerKey &&
+      isDirectLookup(outerKey, state.options)) {
+    const innerValue = inner.get(outerKey);
+    const matched = partial
+      ? yield nested(innerValue, outerValue, { kind: 'map-key', key: outerKey }, state, depth + 1)
+      : yield nested(outerValue, innerValue, { kind: 'map-key', key: outerKey }, state, depth + 1);
+    return matched ? outerKey : NO_MATCH;
+  }
+
+  for (const innerKey of candidates) {
+    const innerValue = inner.get(innerKey);
+    // Each trial gets a fresh state so a failed attempt leaves no stale shared references
+    const trialState = createTrialState(state);
+    if (partial
+      ? yield* entrySteps(innerKey, innerValue, outerKey, outerValue, trialState, depth)
+      : yield* entrySteps(outerKey, outerValue, innerKey, innerValue, trialState, depth)) {
+      return innerKey;
+    }
+  }
+  return NO_MATCH;
+}
+
+/**
+ * Whether Map entries may relate to each other in ways that are not an equivalence,
+ * so that pairing them entry by entry can miss a pairing
+ */
+function mayNeedEntryAugmenting(outer: Map<any, any>, inner: Map<any, any>, options: RequiredDeepEqualOptions): boolean {
+  return options.partial ||
+    mayNeedAugmenting([...outer.keys(), ...outer.values(), ...inner.keys(), ...inner.values()], options);
+}
+
+/**
+ * Pairs the entries of two Maps through `matchingSteps`, revisiting earlier pairings.
+ * Returns the inner key paired with each outer key, in the order of `outer`, or NO_MATCH.
+ */
+function* augmentedEntryPairingSteps(
+  outer: Map<any, any>,
+  inner: Map<any, any>,
+  index: KeyIndex | null,
+  state: CompareState,
+  depth: number,
+  exhaustive: boolean
+): Steps<unknown[]> {
+  const partial = state.options.partial;
+  const outerEntries = Array.from(outer);
+  const innerEntries = Array.from(inner);
+  const positions = new Map<unknown, number>(innerEntries.map(([key], j) => [key, j]));
+  const candidates = outerEntries.map(([key]) =>
+    [candidateKeys(key, inner, index, state.options).map(innerKey => positions.get(innerKey)!)]);
+
+  function* matches(i: number, j: number): Steps {
+    const [outerKey, outerValue] = outerEntries[i];
+    const [innerKey, innerValue] = innerEntries[j];
+    const trialState = createTrialState(state);
+    return partial
+      ? yield* entrySteps(innerKey, innerValue, outerKey, outerValue, trialState, depth)
+      : yield* entrySteps(outerKey, outerValue, innerKey, innerValue, trialState, depth);
+  }
+  const outerMatch = yield* matchingSteps(
+    outerEntries.length, innerEntries.length, matches, true, exhaustive, i => candidates[i]);
+  return outerMatch.map(j => j === -1 ? NO_MATCH : innerEntries[j][0]);
+}
+
+function* mapEntrySteps(
+  mapA: Map<any, any>,
+  mapB: Map<any, any>,
+  state: CompareState,
+  depth: number
+): Steps {
+  if (state.diffs !== null) {
+    return yield* reportMapSteps(mapA, mapB, state, depth);
+  }
+
+  // In partial mode every expected entry (B) needs a match in A; otherwise the reverse
+  const partial = state.options.partial;
+  const outer = partial ? mapB : mapA;
+  const inner = partial ? mapA : mapB;
+  const index = !partial && canUseHashing(state.options) ? indexMapKeys(inner, state.options) : null;
+  // Every inner entry can be matched only once, so equal sizes give a one-to-one pairing
+  const consumed = new Set<unknown>();
+  for (const [outerKey, outerValue] of outer) {
+    const innerKey = yield* entryMatchSteps(outerKey, outerValue, inner, index, consumed, state, depth);
+    if (innerKey === NO_MATCH) {
+      if (!mayNeedEntryAugmenting(outer, inner, state.options)) return false;
+      const pairs = yield* augmentedEntryPairingSteps(outer, inner, index, state, depth, false);
+      return !pairs.includes(NO_MATCH);
+    }
+    consumed.add(innerKey);
+  }
+  return true;
+}
+
+/**
+ * Diff-collecting counterpart of `mapEntrySteps`. Entries are matched
+ * exactly like the boolean path does; entries without a match are paired up by
+ * key where possible so that value differences can be reported in detail.
+ */
+function* reportMapSteps(
+  mapA: Map<any, any>,
+  mapB: Map<any, any>,
+  state: CompareState,
+  depth: number
+): Steps {
+  const diffs = state.diffs!;
+  const startCount = diffs.length;
+  const partial = state.options.partial;
+  const outer = partial ? mapB : mapA;
+  const inner = partial ? mapA : mapB;
+  const index = !partial && canUseHashing(state.options) ? indexMapKeys(inner, state.options) : null;
+  const searchState: CompareState = { ...state, diffs: null };
+  const matchedInner = new Set<unknown>();
+  const unmatchedOuter: Array<[unknown, unknown]> = [];
+
+  for (const [outerKey, outerValue] of outer) {
+    const innerKey = yield* entryMatchSteps(outerKey, outerValue, inner, index, matchedInner, searchState, depth);
+    if (innerKey === NO_MATCH) {
+      unmatchedOuter.push([outerKey, outerValue]);
+    } else {
+      matchedInner.add(innerKey);
+    }
+  }
+  // Pairing entry by entry can miss a pairing when entries are not equivalences
+  if (unmatchedOuter.length !== 0 && mayNeedEntryAugmenting(outer, inner, state.options)) {
+    const pairs = yield* augmentedEntryPairingSteps(outer, inner, index, searchState, depth, true);
+    matchedInner.clear();
+    unmatchedOuter.length = 0;
+    let i = 0;
+    for (const [outerKey, outerValue] of outer) {
+      const innerKey = pairs[i++];
+      if (innerKey === NO_MATCH) {
+        unmatchedOuter.push([outerKey, outerValue]);
+      } else {
+        matchedInner.add(innerKey);
+      }
+    }
+  }
+
+  for (const [outerKey, outerValue] of unmatchedOuter) {
+    const segment: PathSegment = { kind: 'map-key', key: outerKey };
+    let pairedKey: unknown;
+    let paired = false;
+    for (const innerKey of candidateKeys(outerKey, inner, index, state.options)) {
+      if (!matchedInner.has(innerKey) &&
+          (partial
+            ? yield nested(innerKey, outerKey, undefined, createTrialState(state), depth + 1)
+            : yield nested(outerKey, innerKey, undefined, createTrialState(state), depth + 1))) {
+        pairedKey = innerKey;
+        paired = true;
+        break;
+      }
+    }
+    if (!paired) {
+      if (partial) {
+        fail(state, 'added', undefined, outerValue, segment);
+      } else {
+        fail(state, 'removed', outerValue, undefined, segment);
+      }
+      continue;
+    }
+    matchedInner.add(pairedKey);
+    const innerValue = inner.get(pairedKey);
+    const before = diffs.length;
+    // The search above may have recorded these values as shared references, so start afresh
+    const reportState: CompareState = state.shared === null
+      ? state
+      : { ...state, shared: { a: new WeakMap(), b: new WeakMap() } };
+    if (partial) {
+      yield nested(innerValue, outerValue, segment, reportState, depth + 1);
+    } else {
+      yield nested(outerValue, innerValue, segment, reportState, depth + 1);
+    }
+    // The entry did not match as a whole, so make sure something is reported for it
+    if (diffs.length === before) {
+      fail(state, 'changed', partial ? innerValue : outerValue, partial ? outerValue : innerValue, segment);
+    }
+  }
+
+  if (!partial) {
+    for (const [keyB, valueB] of mapB) {
+      if (!matchedInner.has(keyB)) {
+        fail(state, 'added', undefined, valueB, { kind: 'map-key', key: keyB });
+      }
+    }
+    if (diffs.length === startCount && mapA.size !== mapB.size) {
+      fail(state, 'lengthMismatch', mapA, mapB);
+    }
+  }
+  return diffs.length === startCount;
+}
+
+/**
+ * Compares one own property present on both objects. With `compareDescriptors`
+ * the property attributes must match and accessors are compared by identity
+ * without being invoked.
+ */
+function compareProperty(
+  objA: Record<PropertyKey, unknown>,
+  objB: Record<PropertyKey, unknown>,
+  key: string | symbol,
+  state: CompareState,
+  depth: number
+): boolean {
+  if (state.options.compareDescriptors) {
+    const decided = compareDescriptors(objA, objB, key, state);
+    if (decided !== undefined) return decided;
+  }
+  return compareChild(objA[key], objB[key], key, state, depth + 1);
+}
+
+/**
+ * Steps counterpart of `compareProperty`
+ */
+function* propertySteps(
+  objA: Record<PropertyKey, unknown>,
+  objB: Record<PropertyKey, unknown>,
+  key: string | symbol,
+  state: CompareState,
+  depth: number
+): Steps {
+  if (state.options.compareDescriptors) {
+    const decided = compareDescriptors(objA, objB, key, state);
+    if (decided !== undefined) return decided;
+  }
+  return yield nested(objA[key], objB[key], key, state, depth + 1);
+}
+
+/**
+ * Compares the attributes of a property for `compareDescriptors`; returns
+ * undefined when the values of the data properties are left to compare
+ */
+function compareDescriptors(
+  objA: Record<PropertyKey, unknown>,
+  objB: Record<PropertyKey, unknown>,
+  key: string | symbol,
+  state: CompareState
+): boolean | undefined {
+  const descriptorA = Object.getOwnPropertyDescriptor(objA, key)!;
+  const descriptorB = Object.getOwnPropertyDescriptor(objB, key)!;
+  if (descriptorA.enumerable !== descriptorB.enumerable ||
+      descriptorA.configurable !== descriptorB.configurable ||
+      descriptorA.writable !== descriptorB.writable ||
+      descriptorA.get !== descriptorB.get ||
+      descriptorA.set !== descriptorB.set) {
+    return fail(state, 'descriptorMismatch', descriptorA, descriptorB, key);
+  }
+  return 'get' in descriptorA ? true : undefined;
+}
+
+/**
+ * Whether `key`, one of the keys compared on the other object, is also among the
+ * keys compared on `obj`: an own property, enumerable unless `nonEnumerable` is set.
+ * A non-enumerable property does not stand in for a missing enumerable one.
+ */
+function hasKey(obj: object, key: string | symbol, options: RequiredDeepEqualOptions): boolean {
+  return options.nonEnumerable
+    ? Object.prototype.hasOwnProperty.call(obj, key)
+    : Object.prototype.propertyIsEnumerable.call(obj, key);
+}
+
+function isArrayIndex(key: string | symbol): boolean {
+  return typeof key === 'string' && /^(?:0|[1-9]\d*)$/.test(key) && Number(key) < 4294967295;
+}
+
+/**
+ * Keys of `obj`, one of the objects compared, that take part in the comparison
+ */
+function comparedKeys(
+  obj: Record<PropertyKey, unknown>,
+  objA: Record<PropertyKey, unknown>,
+  objB: Record<PropertyKey, unknown>,
+  state: CompareState,
+  skipKey: ((key: string | symbol) => boolean) | null
+): Array<string | symbol> {
+  let keys = ownKeys(obj, state.options);
+  if (skipKey !== null) {
+    // Keys the caller compared already, e.g. array elements
+    keys = keys.filter(key => !skipKey(key));
+  }
+  if (hasPathFilter(state.options)) {
+    // Excluded keys take no part in the comparison, key count included
+    keys = keys.filter(key => !isPathExcluded(state, key, objA[key], objB[key]));
+  }
+  return keys;
+}
+
+function compareObjectOptimized(
+  objA: Record<PropertyKey, unknown>,
+  objB: Record<PropertyKey, unknown>,
+  state: CompareState,
+  depth: number,
+  skipKey: ((key: string | symbol) => boolean) | null = null
+): boolean {
+  const keysA = comparedKeys(objA, objA, objB, state, skipKey);
+  const keysB = comparedKeys(objB, objA, objB, state, skipKey);
+  const length = keysA.length;
+
+  if (state.options.undefinedEqualsMissing) {
+    return runSteps(keyUnionSteps(objA, objB, keysA, keysB, state, depth));
+  }
+
+  if (state.diffs !== null) {
+    return runSteps(reportObjectSteps(objA, objB, keysA, keysB, state, depth));
+  }
+
+  if (state.options.partial) {
+    // Only the expected keys (B) matter; A may have extra ones
+    for (let i = 0; i < keysB.length; i++) {
+      const key = keysB[i];
+      if (!hasKey(objA, key, state.options) ||
+          !compareProperty(objA, objB, key, state, depth)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  if (length !== keysB.length) return false;
+
+  // Fast path: check if all keys exist in b
+  for (let i = length; i-- !== 0;) {
+    if (!hasKey(objB, keysA[i], state.options)) {
+      return false;
+    }
+  }
+
+  // Compare values
+  for (let i = 0; i < length; i++) {
+    if (!compareProperty(objA, objB, keysA[i], state, depth)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Steps counterpart of `compareObjectOptimized`
+ */
+function* propertiesSteps(
+  objA: Record<PropertyKey, unknown>,
+  objB: Record<PropertyKey, unknown>,
+  state: CompareState,
+  depth: number,
+  skipKey: ((key: string | symbol) => boolean) | null = null
+): Steps {
+  const keysA = comparedKeys(objA, objA, objB, state, skipKey);
+  const keysB = comparedKeys(objB, objA, objB, state, skipKey);
+  const length = keysA.length;
+
+  if (state.options.undefinedEqualsMissing) {
+    return yield* keyUnionSteps(objA, objB, keysA, keysB, state, depth);
+  }
+
+  if (state.diffs !== null) {
+    return yield* reportObjectSteps(objA, objB, keysA, keysB, state, depth);
+  }
+
+  if (state.options.partial) {
+    for (let i = 0; i < keysB.length; i++) {
+      const key = keysB[i];
+      if (!hasKey(objA, key, state.options) ||
+          !(yield* propertySteps(objA, objB, key, state, depth))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  if (length !== keysB.length) return false;
+  for (let i = length; i-- !== 0;) {
+    if (!hasKey(objB, keysA[i], state.options)) {
+      return false;
+    }
+  }
+  for (let i = 0; i < length; i++) {
+    if (!(yield* propertySteps(objA, objB, keysA[i], state, depth))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Key comparison for `undefinedEqualsMissing`: a key missing on one side reads as
+ * `undefined` there, so only keys holding other values need a counterpart
+ */
+function* keyUnionSteps(
+  objA: Record<PropertyKey, unknown>,
+  objB: Record<PropertyKey, unknown>,
+  keysA: Array<string | symbol>,
+  keysB: Array<string | symbol>,
+  state: CompareState,
+  depth: number
+): Steps {
+  let equal = true;
+  const partial = state.options.partial;
+  // Keys left out of the comparison (e.g. non-enumerable ones) count as missing
+  const comparedB = partial ? null : new Set(keysB);
+  const comparedA = partial ? null : new Set(keysA);
+  // Extra keys on A are allowed in partial mode
+  if (comparedB !== null) {
+    for (const key of keysA) {
+      const matched = comparedB.has(key)
+        ? yield* propertySteps(objA, objB, key, state, depth)
+        : yield nested(objA[key], undefined, key, state, depth + 1);
+      if (!matched) {
+        if (state.diffs === null) return false;
+        equal = false;
+      }
+    }
+  }
+  for (const key of keysB) {
+    let matched = true;
+    if (comparedA === null ? !hasKey(objA, key, state.options) : !comparedA.has(key)) {
+      matched = yield nested(undefined, objB[key], key, state, depth + 1);
+    } else if (partial) {
+      // Keys present on both sides were compared above unless A's keys were skipped
+      matched = yield* propertySteps(objA, objB, key, state, depth);
+    }
+    if (!matched) {
+      if (state.diffs === null) return false;
+      equal = false;
+    }
+  }
+  return equal;
+}
+
+/**
+ * Diff-collecting counterpart of `compareObjectOptimized`: walks every key
+ * instead of stopping at the first difference
+ */
+function* reportObjectSteps(
+  objA: Record<PropertyKey, unknown>,
+  objB: Record<PropertyKey, unknown>,
+  keysA: Array<string | symbol>,
+  keysB: Array<string | symbol>,
+  state: CompareState,
+  depth: number
+): Steps {
+  const partial = state.options.partial;
+  let equal = true;
+
+  for (const key of keysA) {
+    if (!hasKey(objB, key, state.options)) {
+      // Extra keys on A are allowed in partial mode
+      if (!partial) equal = fail(state, 'removed', objA[key], undefined, key);
+    } else if (!(yield* propertySteps(objA, objB, key, state, depth))) {
+      equal = false;
+    }
+  }
+
+  for (const key of keysB) {
+    if (!hasKey(objA, key, state.options)) {
+      equal = fail(state, 'added', undefined, objB[key], key);
+    }
+  }
+
+  return equal;
+}
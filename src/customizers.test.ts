@@ -0,0 +1,87 @@
+import { deepDiff, deepEqualCheck } from './index';
+import type { Customizer, CustomizerContext } from './index';
+
+class Money {
+  constructor(public amount: string, public currency: string) {}
+}
+
+const moneyEquals: Customizer = (a, b) =>
+  a instanceof Money && b instanceof Money
+    ? Number(a.amount) === Number(b.amount) && a.currency === b.currency
+    : undefined;
+
+const caseInsensitive: Customizer = (a, b) =>
+  typeof a === 'string' && typeof b === 'string' ? a.toLowerCase() === b.toLowerCase() : undefined;
+
+describe('customizers', () => {
+  it('uses constructor customizers before the default comparison', () => {
+    const options = { customizers: { byConstructor: [[Money, moneyEquals]] as const } };
+    expect(deepEqualCheck({ price: new Money('1.50', 'EUR') }, { price: new Money('1.5', 'EUR') }, options)).toBe(true);
+    expect(deepEqualCheck({ price: new Money('1.50', 'EUR') }, { price: new Money('1.5', 'USD') }, options)).toBe(false);
+  });
+
+  it('takes precedence over built-in Date handling', () => {
+    const withinMinute: Customizer = (a, b) => Math.abs((a as Date).getTime() - (b as Date).getTime()) < 60000;
+    const options = { customizers: { byConstructor: new Map([[Date, withinMinute]]) } };
+    expect(deepEqualCheck(new Date(0), new Date(30000), options)).toBe(true);
+    expect(deepEqualCheck(new Date(0), new Date(90000), options)).toBe(false);
+  });
+
+  it('uses path customizers for primitive leaves', () => {
+    const options = { customizers: { byPath: [['users.*.id', caseInsensitive]] as const } };
+    expect(deepEqualCheck({ users: [{ id: 'ABC' }] }, { users: [{ id: 'abc' }] }, options)).toBe(true);
+    expect(deepEqualCheck({ users: [{ id: 'ABC' }] }, { users: [{ id: 'abd' }] }, options)).toBe(false);
+    expect(deepEqualCheck({ other: 'ABC' }, { other: 'abc' }, options)).toBe(false);
+  });
+
+  it('supports globstar and array path patterns', () => {
+    const globstar = { customizers: { byPath: [['**.id', caseInsensitive]] as const } };
+    expect(deepEqualCheck({ a: { b: { id: 'X' } } }, { a: { b: { id: 'x' } } }, globstar)).toBe(true);
+
+    const segments = { customizers: { byPath: [[['a.b', 0], caseInsensitive]] as const } };
+    expect(deepEqualCheck({ 'a.b': ['X'] }, { 'a.b': ['x'] }, segments)).toBe(true);
+  });
+
+  it('matches Map entries by key in path patterns', () => {
+    const options = { customizers: { byPath: [['names.first', caseInsensitive]] as const } };
+    expect(deepEqualCheck({ names: new Map([['first', 'ANN']]) }, { names: new Map([['first', 'ann']]) }, options)).toBe(true);
+  });
+
+  it('falls through to the default rules when the customizer returns undefined', () => {
+    const customizer = jest.fn<boolean | undefined, [unknown, unknown, CustomizerContext]>(() => undefined);
+    const options = { customizers: { byPath: [['**', customizer]] as const } };
+    expect(deepEqualCheck({ a: [1] }, { a: [1] }, options)).toBe(true);
+    expect(deepEqualCheck({ a: [1] }, { a: [2] }, options)).toBe(false);
+    expect(customizer).toHaveBeenCalled();
+  });
+
+  it('passes the path, depth and a recursive equals callback', () => {
+    const contexts: CustomizerContext[] = [];
+    const spy: Customizer = (a, b, context) => {
+      contexts.push(context);
+      return context.equals((a as any).value, (b as any).value);
+    };
+    const options = { customizers: { byPath: [['items.*', spy]] as const } };
+    expect(deepEqualCheck({ items: [{ value: 1, noise: 1 }] }, { items: [{ value: 1, noise: 2 }] }, options)).toBe(true);
+    expect(contexts[0]!.path).toEqual(['items', 0]);
+    expect(contexts[0]!.depth).toBe(2);
+  });
+
+  it('shares circular reference tracking with the equals callback', () => {
+    class Node { next: Node | null = null; constructor(public value: number) {} }
+    const a = new Node(1);
+    a.next = a;
+    const b = new Node(1);
+    b.next = b;
+    const delegate: Customizer = (x, y, { equals }) => equals({ ...(x as Node) }, { ...(y as Node) });
+    expect(deepEqualCheck(a, b, { customizers: { byConstructor: [[Node, delegate]] } })).toBe(true);
+  });
+
+  it('reports customizer rejections in deepDiff', () => {
+    const options = { customizers: { byPath: [['id', caseInsensitive]] as const } };
+    expect(deepDiff({ id: 'A', n: 1 }, { id: 'a', n: 1 }, options)).toEqual([]);
+    expect(deepDiff({ id: 'A', n: 1 }, { id: 'b', n: 1 }, options)).toEqual([
+      { path: ['id'], kind: 'changed', a: 'A', b: 'b' },
+    ]);
+  });
+});
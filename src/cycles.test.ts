@@ -0,0 +1,175 @@
+import { createDeepEqual, deepDiff, deepEqualCheck } from './index';
+
+type Node = { v: number; next?: Node; [key: string]: unknown };
+
+/** A node pointing to itself */
+const loop = (): Node => {
+  const node: Node = { v: 1 };
+  node.next = node;
+  return node;
+};
+
+/** Two alike nodes pointing to each other */
+const twoStep = (): Node => {
+  const first: Node = { v: 1 };
+  first.next = { v: 1, next: first };
+  return first;
+};
+
+describe('circular references', () => {
+  it('requires cycles to line up on both sides', () => {
+    expect(deepEqualCheck(loop(), loop())).toBe(true);
+    expect(deepEqualCheck(twoStep(), twoStep())).toBe(true);
+    expect(deepEqualCheck(loop(), twoStep())).toBe(false);
+    expect(deepEqualCheck(twoStep(), loop())).toBe(false);
+  });
+
+  it('tells a cycle from a chain unrolling it', () => {
+    const unrolled = loop();
+    const chain: Node = { v: 1, next: { v: 1, next: unrolled } };
+    expect(deepEqualCheck(loop(), chain)).toBe(false);
+    expect(deepEqualCheck(chain, loop())).toBe(false);
+    expect(deepEqualCheck(chain, { v: 1, next: { v: 1, next: loop() } })).toBe(true);
+  });
+
+  it('does not map two objects of one side onto one object of the other', () => {
+    const pair = twoStep();
+    const single = loop();
+    expect(deepEqualCheck({ l: pair, r: pair.next }, { l: single, r: single })).toBe(false);
+    expect(deepEqualCheck({ l: single, r: single }, { l: pair, r: pair.next })).toBe(false);
+  });
+
+  it('reports where the cycles part', () => {
+    const a = loop();
+    const b = twoStep();
+    expect(deepDiff(a, b)).toEqual([{ path: ['next'], kind: 'changed', a, b: b.next }]);
+  });
+
+  it('follows cycles through Map values', () => {
+    // Primitive keys are looked up directly, object keys matched by trial comparisons
+    for (const key of [() => 'self', () => ({ k: 1 })]) {
+      const withMap = (unroll: boolean) => {
+        const node: Record<string, unknown> = { map: new Map() };
+        const target = unroll ? { map: new Map([[key(), node]]) } : node;
+        (node.map as Map<unknown, unknown>).set(key(), target);
+        return node;
+      };
+      expect(deepEqualCheck(withMap(false), withMap(false))).toBe(true);
+      expect(deepEqualCheck(withMap(true), withMap(true))).toBe(true);
+      expect(deepEqualCheck(withMap(false), withMap(true))).toBe(false);
+      expect(deepEqualCheck(withMap(true), withMap(false))).toBe(false);
+    }
+  });
+
+  it('follows cycles through Set members', () => {
+    const withSet = (unroll: boolean) => {
+      const node: Record<string, unknown> = { id: 1 };
+      node.set = new Set([unroll ? { id: 1, set: new Set([node]) } : node, 'other']);
+      return node;
+    };
+    expect(deepEqualCheck(withSet(false), withSet(false))).toBe(true);
+    expect(deepEqualCheck(withSet(true), withSet(true))).toBe(true);
+    expect(deepEqualCheck(withSet(false), withSet(true))).toBe(false);
+    expect(deepEqualCheck(withSet(true), withSet(false))).toBe(false);
+    expect(deepEqualCheck(withSet(false), withSet(true), { arrayOrder: 'ignore' })).toBe(false);
+  });
+
+  it('matches Set members that close cycles in different orders', () => {
+    const ring = (order: number[]) => {
+      const hub: Record<string, unknown> = {};
+      const spokes = order.map(v => ({ v, hub }));
+      hub.spokes = new Set(spokes);
+      return hub;
+    };
+    expect(deepEqualCheck(ring([1, 2, 3]), ring([3, 1, 2]))).toBe(true);
+    expect(deepEqualCheck(ring([1, 2, 3]), ring([1, 2, 4]))).toBe(false);
+  });
+
+  it('starts every call of a reused comparator afresh', () => {
+    const equal = createDeepEqual({}, { reuseState: true });
+    const a = loop();
+    const b = twoStep();
+    expect(equal(a, b)).toBe(false);
+    expect(equal(a, loop())).toBe(true);
+    expect(equal(b, twoStep())).toBe(true);
+    expect(equal(a, b)).toBe(false);
+  });
+});
+
+describe('shared references', () => {
+  it('compares an object reached twice at both places', () => {
+    const x = { v: 1 };
+    expect(deepEqualCheck([x, x], [{ v: 1 }, { v: 1 }])).toBe(true);
+    expect(deepEqualCheck([{ v: 1 }, { v: 1 }], [x, x])).toBe(true);
+    expect(deepEqualCheck([x, x], [{ v: 1 }, { v: 2 }])).toBe(false);
+  });
+
+  it('compares large shared subtrees once', () => {
+    const build = (leaf: unknown) => {
+      let value: unknown = { leaf };
+      for (let i = 0; i < 40; i++) value = [value, { value }];
+      return value;
+    };
+    expect(deepEqualCheck(build(1), build(1))).toBe(true);
+    expect(deepEqualCheck(build(1), build(2))).toBe(false);
+    expect(createDeepEqual({}, { reuseState: true })(build(1), build(1))).toBe(true);
+  });
+
+  it('still reaches maxDepth below a subtree met before', () => {
+    const tree = () => ({ a: { b: 1 } });
+    const shallowAndDeep = (shared: object) => [shared, { w: shared }];
+    expect(deepEqualCheck(shallowAndDeep(tree()), shallowAndDeep(tree()), { maxDepth: 2 })).toBe(false);
+    expect(deepEqualCheck(shallowAndDeep(tree()), shallowAndDeep(tree()), { maxDepth: 3 })).toBe(true);
+  });
+
+  describe('with preserveSharedReferences', () => {
+    const options = { preserveSharedReferences: true };
+
+    it('requires objects to be shared in the same places', () => {
+      const x = { v: 1 };
+      const y = { v: 1 };
+      expect(deepEqualCheck([x, x], [y, y], options)).toBe(true);
+      expect(deepEqualCheck([x, y], [{ v: 1 }, { v: 1 }], options)).toBe(true);
+      expect(deepEqualCheck([x, x], [{ v: 1 }, { v: 1 }], options)).toBe(false);
+      expect(deepEqualCheck([{ v: 1 }, { v: 1 }], [x, x], options)).toBe(false);
+    });
+
+    it('records objects both sides share with each other', () => {
+      const x = { v: 1 };
+      expect(deepEqualCheck([x, x], [x, x], options)).toBe(true);
+      expect(deepEqualCheck([x, x], [x, { v: 1 }], options)).toBe(false);
+      expect(deepEqualCheck({ p: x, q: { r: x } }, { p: x, q: { r: { v: 1 } } }, options)).toBe(false);
+    });
+
+    it('applies in strict mode', () => {
+      const x = { v: 1 };
+      expect(deepEqualCheck([x, x], [{ v: 1 }, { v: 1 }], { ...options, mode: 'strict' })).toBe(false);
+      expect(deepEqualCheck([x, x], [{ v: 1 }, { v: 1 }], { mode: 'strict' })).toBe(true);
+    });
+
+    it('requires sharing to match through Map values and Set members', () => {
+      const x = { v: 1 };
+      const mapOf = (first: object, second: object) => new Map([['a', first], ['b', second]]);
+      expect(deepEqualCheck(mapOf(x, x), mapOf({ v: 1 }, { v: 1 }))).toBe(true);
+      expect(deepEqualCheck(mapOf(x, x), mapOf({ v: 1 }, { v: 1 }), options)).toBe(false);
+      const y = { v: 1 };
+      expect(deepEqualCheck(mapOf(x, x), mapOf(y, y), options)).toBe(true);
+      expect(deepEqualCheck([new Set([x]), x], [new Set([y]), y], options)).toBe(true);
+      expect(deepEqualCheck([x, new Set([x])], [{ v: 1 }, new Set([{ v: 1 }])], options)).toBe(false);
+    });
+
+    it('keeps cycles working', () => {
+      expect(deepEqualCheck(loop(), loop(), options)).toBe(true);
+      expect(deepEqualCheck(loop(), twoStep(), options)).toBe(false);
+      expect(createDeepEqual(options, { reuseState: true })(twoStep(), twoStep())).toBe(true);
+    });
+
+    it('reports the object shared differently', () => {
+      const x = { v: 1 };
+      const copy = { v: 1 };
+      expect(deepDiff({ p: x, q: x }, { p: x, q: copy }, options)).toEqual([
+        { path: ['q'], kind: 'changed', a: x, b: copy },
+      ]);
+    });
+  });
+});
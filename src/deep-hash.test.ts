@@ -0,0 +1,219 @@
+import { any, deepEqualCheck, deepHash } from './index';
+import type { DeepEqualOptions } from './index';
+import { createRandom } from './test-utils';
+
+class Point {
+  constructor(public x: unknown) {}
+}
+
+describe('deepHash', () => {
+  it('ignores the order of object keys and of Set and Map members', () => {
+    expect(deepHash({ a: 1, b: [1, 'x'] })).toBe(deepHash({ b: [1, 'x'], a: 1 }));
+    expect(deepHash(new Set([{ id: 1 }, { id: 2 }]))).toBe(deepHash(new Set([{ id: 2 }, { id: 1 }])));
+    expect(deepHash(new Map([[1, 'a'], [2, 'b']]))).toBe(deepHash(new Map([[2, 'b'], [1, 'a']])));
+  });
+
+  it('tells common differences apart', () => {
+    expect(deepHash({ a: 1 })).not.toBe(deepHash({ a: 2 }));
+    expect(deepHash([1, 2])).not.toBe(deepHash([2, 1]));
+    expect(deepHash({ a: { b: { c: { d: { e: 1 } } } } })).not.toBe(deepHash({ a: { b: { c: { d: { e: 2 } } } } }));
+    expect(deepHash(new Set([1, 2]))).not.toBe(deepHash(new Set([1, 3])));
+    expect(deepHash(new Map([[1, 'a']]))).not.toBe(deepHash(new Map([[1, 'b']])));
+    expect(deepHash(new Date(1))).not.toBe(deepHash(new Date(2)));
+    expect(deepHash(/a/g)).not.toBe(deepHash(/a/i));
+    expect(deepHash(new Uint8Array([1, 2]))).not.toBe(deepHash(new Uint8Array([1, 3])));
+  });
+
+  it('hashes NaN and zeros according to nanEqual and strictZero', () => {
+    expect(deepHash([NaN])).toBe(deepHash([NaN]));
+    expect(deepHash(new Float64Array([NaN, 0]))).toBe(deepHash(new Float64Array([NaN, -0])));
+    expect(deepHash({ a: 0 })).toBe(deepHash({ a: -0 }));
+    expect(deepHash({ a: 0 }, { strictZero: true })).not.toBe(deepHash({ a: -0 }, { strictZero: true }));
+  });
+
+  it('follows the options that relax equality', () => {
+    expect(deepHash([1, 2], { arrayOrder: 'ignore' })).toBe(deepHash([2, 1], { arrayOrder: 'ignore' }));
+    expect(deepHash({ a: 1.0001 }, { epsilon: 0.01 })).toBe(deepHash({ a: 1 }, { epsilon: 0.01 }));
+    expect(deepHash({ a: 1, at: 1 }, { ignorePaths: ['at'] })).toBe(deepHash({ a: 1, at: 2 }, { ignorePaths: ['at'] }));
+    expect(deepHash({ a: 1, b: undefined }, { undefinedEqualsMissing: true }))
+      .toBe(deepHash({ a: 1 }, { undefinedEqualsMissing: true }));
+    expect(deepHash(new Uint8Array([1, 0, 0, 0]), { compareBufferBytes: true }))
+      .toBe(deepHash(new Uint32Array([1]), { compareBufferBytes: true }));
+  });
+
+  it('hashes every value the same when equality is not known in advance', () => {
+    const customizers = { byPath: [['a', () => true]] as const };
+    expect(deepHash({ a: 1 }, { customizers })).toBe(deepHash({ a: 2 }, { customizers }));
+    expect(deepHash({ a: 1, b: 2 }, { partial: true })).toBe(deepHash({ a: 1 }, { partial: true }));
+    expect(deepHash(1, { mode: 'loose' })).toBe(deepHash('1', { mode: 'loose' }));
+  });
+
+  it('hashes asymmetric matchers the same whatever they match', () => {
+    expect(deepHash({ a: any(Number) })).toBe(deepHash({ a: any(String) }));
+  });
+
+  it('hashes circular structures by their unfolding', () => {
+    const a: Record<string, unknown> = { v: 1 };
+    a.self = a;
+    const b: Record<string, unknown> = { v: 1 };
+    b.self = b;
+    expect(deepHash(a)).toBe(deepHash(b));
+
+    // Equal, though sharing objects in different places
+    const cyclic = () => {
+      const node: Record<string, unknown> = {};
+      node.r = node;
+      return node;
+    };
+    const x = cyclic();
+    const left = { p: x, q: x };
+    const right = { p: cyclic(), q: cyclic() };
+    expect(deepEqualCheck(left, right)).toBe(true);
+    expect(deepHash(left)).toBe(deepHash(right));
+
+    const other: Record<string, unknown> = { v: 2 };
+    other.self = other;
+    expect(deepHash(a)).not.toBe(deepHash(other));
+  });
+
+  it('hashes values nested deeper than it follows', () => {
+    const nest = (levels: number, leaf: unknown) => {
+      let value = leaf;
+      for (let i = 0; i < levels; i++) value = { value };
+      return value;
+    };
+    expect(deepHash(nest(100000, 1))).toBe(deepHash(nest(100000, 1)));
+
+    // An object hashed whole near the top is cut off where it recurs far down, as a copy would be
+    const shared = nest(10, 1);
+    const left = [shared, nest(995, shared)];
+    const right = [nest(10, 1), nest(995, nest(10, 1))];
+    expect(deepEqualCheck(left, right)).toBe(true);
+    expect(deepHash(left)).toBe(deepHash(right));
+  });
+
+  it('hashes shared subtrees once', () => {
+    const build = () => {
+      let value: unknown = { leaf: true };
+      for (let i = 0; i < 40; i++) value = [value, value];
+      return value;
+    };
+    expect(deepHash(build())).toBe(deepHash(build()));
+  });
+});
+
+const symbol = Symbol('s');
+const leaves = [0, -0, 1, 1.0000001, '1', NaN, '', 'a', true, null, undefined, 1n];
+const keys = ['a', 'b', 'c', symbol];
+
+/**
+ * Seeded generator for the property test. Values are built from `random`, while the
+ * order in which keys, Set members and Map entries are inserted and where references
+ * are shared comes from `layout`. Replacing one random number of the structure gives
+ * a value that differs somewhere, or not.
+ */
+function generate(random: () => number, layout: () => number, depth = 3): unknown {
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+  const shuffle = <T>(items: T[]): T[] => items.sort(() => layout() - 0.5);
+  const children = (count: number) =>
+    Array.from({ length: Math.floor(random() * count) }, () => generate(random, layout, depth - 1));
+
+  if (depth === 0 || random() < 0.35) return pick(leaves);
+
+  switch (Math.floor(random() * 12)) {
+    case 0:
+      return children(4);
+    case 1:
+    case 2: {
+      const entries: Array<[PropertyKey, unknown, boolean]> = [];
+      for (const key of keys) {
+        if (random() < 0.5) continue;
+        entries.push([key, generate(random, layout, depth - 1), random() < 0.15]);
+      }
+      const object: Record<PropertyKey, unknown> = {};
+      for (const [key, value, hidden] of shuffle(entries)) {
+        Object.defineProperty(object, key, { value, enumerable: !hidden, writable: true, configurable: true });
+      }
+      return object;
+    }
+    case 3:
+      return new Point(generate(random, layout, depth - 1));
+    case 4:
+      return pick([new Date(0), new Date(1), /a/g, /a/, new TypeError('x'), new Error('y')]);
+    case 5:
+      return new Set(shuffle(children(4)));
+    case 6:
+      return new Map(shuffle(children(4).map(key => [key, generate(random, layout, depth - 1)] as [unknown, unknown])));
+    case 7: {
+      const values = Array.from({ length: Math.floor(random() * 3) }, () => pick([0, -0, 1, NaN]));
+      return pick([Float64Array, Uint8Array, Int16Array]).from(values);
+    }
+    case 8:
+      return Object(pick([0, -0, 'a', true, 1n]));
+    case 9: {
+      // Self-reference, possibly unrolled once
+      const value = pick(leaves);
+      const node: Record<string, unknown> = { value };
+      node.self = layout() < 0.5 ? node : { value, self: node };
+      return node;
+    }
+    case 10: {
+      // The same child twice, or two equal children
+      const childSeed = Math.floor(random() * 2 ** 31);
+      const child = generate(createRandom(childSeed), layout, depth - 1);
+      return [child, layout() < 0.5 ? child : generate(createRandom(childSeed), layout, depth - 1)];
+    }
+    default:
+      return pick([Point, Symbol.iterator]);
+  }
+}
+
+const SEEDS = 400;
+
+describe('deepHash property: equal values hash the same', () => {
+  const optionSets: DeepEqualOptions[] = [
+    {},
+    { nanEqual: false },
+    { strictZero: true },
+    { mode: 'strict' },
+    { arrayOrder: 'ignore' },
+    { epsilon: 1e-3 },
+    { ignorePaths: ['**.b'] },
+    { onlyPaths: ['a', 'c.a'] },
+    { undefinedEqualsMissing: true },
+    { compareBufferBytes: true },
+    { symbolKeys: true, nonEnumerable: true },
+    { useValueOf: true, compareIterables: true },
+  ];
+
+  for (const options of optionSets) {
+    it(`holds with ${JSON.stringify(options)}`, () => {
+      const failures: number[] = [];
+      let equalPairs = 0;
+      for (let seed = 1; seed <= SEEDS; seed++) {
+        const a = generate(createRandom(seed), createRandom(-seed));
+        const b = generate(createRandom(seed, seed % 3 === 0 ? -1 : seed % 12), createRandom(seed * 7919));
+        if (!deepEqualCheck(a, b, options)) continue;
+        equalPairs++;
+        if (deepHash(a, options) !== deepHash(b, options)) failures.push(seed);
+      }
+      expect(failures).toEqual([]);
+      // Make sure the corpus exercises the implication
+      expect(equalPairs).toBeGreaterThan(SEEDS / 4);
+    });
+  }
+
+  it('tells most unequal values apart', () => {
+    let unequalPairs = 0;
+    let collisions = 0;
+    for (let seed = 1; seed <= SEEDS; seed++) {
+      const a = generate(createRandom(seed), createRandom(-seed));
+      const b = generate(createRandom(seed, seed % 12), createRandom(seed * 7919));
+      if (deepEqualCheck(a, b)) continue;
+      unequalPairs++;
+      if (deepHash(a) === deepHash(b)) collisions++;
+    }
+    expect(unequalPairs).toBeGreaterThan(SEEDS / 4);
+    expect(collisions).toBeLessThan(unequalPairs / 10);
+  });
+});
@@ -0,0 +1,398 @@
+import { definesValueOf, NOT_BOXED, unbox } from './boxed';
+import { binaryBytes, isFloatArrayTag } from './core';
+import { hashNumber, hashString, mix } from './hash';
+import { isAccessor, ownKeys } from './keys';
+import { isAsymmetricMatcher } from './matchers';
+import { hasNumericTolerance, hasPathFilter, hasUnorderedArrays, resolveOptions } from './options';
+import { matchPath, matchPathPartial } from './paths';
+import { isDeepEquatable } from './protocol';
+import { typeTag } from './tags';
+import type { DeepEqualOptions, PathSegment, RequiredDeepEqualOptions } from './types';
+
+/**
+ * Hashing of whole values consistent with deep equality: values that
+ * `deepEqualCore` considers equal always hash the same under the same options.
+ * Unlike `structuralHash`, every level of nesting and every member of a
+ * collection contributes.
+ */
+
+/** Levels of a cyclic structure that contribute to the hashes of its objects */
+const CYCLE_HASH_DEPTH = 3;
+
+/** Levels of nesting that contribute to a hash; hashing recurses, so deeper levels all hash alike */
+const HASH_DEPTH = 1000;
+
+const SEED_ANY = 0x616e7920;
+const SEED_CIRCULAR = 0x63697263;
+const SEED_NUMBER = 0x6e756d62;
+const SEED_NEGATIVE_ZERO = 0x2d7a6572;
+const SEED_BIGINT = 0x62696769;
+const SEED_NULL = 0x6e756c6c;
+const SEED_UNDEFINED = 0x756e6466;
+const SEED_SYMBOL = 0x73796d62;
+const SEED_FUNCTION = 0x66756e63;
+const SEED_ACCESSOR = 0x61636365;
+const SEED_OBJECT = 0x6f626a65;
+const SEED_ARRAY = 0x61727261;
+const SEED_BUFFER = 0x62756666;
+const SEED_VALUE_OF = 0x76616c75;
+const SEED_ITERABLE = 0x69746572;
+
+/** Compared by identity only, so nothing but the type is worth hashing */
+const IDENTITY_TAGS = new Set(['[object WeakMap]', '[object WeakSet]', '[object WeakRef]', '[object Promise]']);
+
+interface HashState {
+  options: RequiredDeepEqualOptions;
+  tolerant: boolean;
+  /**
+   * Current path when `ignorePaths`/`onlyPaths` are set. What is hashed then
+   * depends on where an object sits, so nothing is memoized.
+   */
+  path: PathSegment[] | null;
+  /** Objects whose hash is being computed */
+  ancestors: Set<object>;
+  /** Hashes of finished objects that reach no cycle */
+  complete: Map<object, number>;
+  /** Levels of objects below those in `complete`, as the same object met deeper is cut off sooner */
+  heights: Map<object, number>;
+  /** Deepest depth an object was hashed at since the current object was entered */
+  deepest: number;
+  /** Depth beyond which objects are not hashed: `maxDepth` or `HASH_DEPTH`, whichever is lower */
+  depthLimit: number;
+  /** Finished objects that reach a cycle, hashed by `hashUnfolded` */
+  cyclic: Set<object>;
+  /** Hashes of objects that reach a cycle, per number of levels unfolded */
+  unfolded: Array<Map<object, number>>;
+  /** Whether the object being hashed reaches a cycle */
+  reachesCycle: boolean;
+  /** Whether the object being hashed goes deeper than `maxDepth` or `HASH_DEPTH` */
+  truncated: boolean;
+}
+
+/** Hash of a child value, taking the path segment leading to it */
+type ChildHash = (value: unknown, segment: PathSegment) => number;
+
+/**
+ * Hashes a value consistently with deep equality
+ *
+ * Values that `deepEqualCheck(a, b, options)` considers equal always get the same hash
+ * with the same options, so deep values can serve as cache keys or be deduplicated by
+ * bucketing on the hash first. Key order of objects and member order of Sets and Maps do
+ * not matter, circular references are followed, and NaN and zeros hash according to
+ * `nanEqual` and `strictZero`. Different values may share a hash: it has 32 bits, numbers
+ * all hash the same when a tolerance is set, and objects on a cycle contribute only a few
+ * levels of the structure around them.
+ *
+ * Equality decided by code the hash cannot see has no hash other than a constant agreeing
+ * with it: with `customizers`, `partial` or `mode: 'loose'` every value hashes the same.
+ * Asymmetric matchers and classes implementing `DEEP_EQUALS` hash the same as each other
+ * whatever they contain, so the guarantee covers them only when they equal values of the
+ * same kind.
+ *
+ * @param value - Value to hash
+ * @param options - Comparison options (same as `deepEqualCheck`)
+ * @returns Unsigned 32-bit hash
+ *
+ * @example
+ * ```typescript
+ * import { deepHash } from 'deep-equal-check';
+ *
+ * deepHash({ a: 1, tags: new Set(['x', 'y']) }) === deepHash({ tags: new Set(['y', 'x']), a: 1 }); // true
+ * ```
+ */
+export function deepHash(value: unknown, options: DeepEqualOptions = {}): number {
+  const resolved = resolveOptions(options);
+  if (resolved.customizers !== null || resolved.partial || resolved.mode === 'loose') return SEED_ANY;
+  const state: HashState = {
+    options: resolved,
+    tolerant: hasNumericTolerance(resolved),
+    path: hasPathFilter(resolved) ? [] : null,
+    ancestors: new Set(),
+    complete: new Map(),
+    heights: new Map(),
+    deepest: 0,
+    depthLimit: Math.min(resolved.maxDepth, HASH_DEPTH),
+    cyclic: new Set(),
+    unfolded: [],
+    reachesCycle: false,
+    truncated: false,
+  };
+  if (!isObjectLike(value)) return hashPrimitive(value, state);
+  const hash = hashObject(value, state, 0);
+  if (!state.reachesCycle) return hash;
+  // With path filters, cycles are only told apart from other cycles by what leads to them
+  return state.path === null ? hashUnfolded(value, state, CYCLE_HASH_DEPTH) : SEED_CIRCULAR;
+}
+
+function isObjectLike(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+function hashPrimitive(value: unknown, state: HashState): number {
+  switch (typeof value) {
+    case 'number':
+      // Numbers within a tolerance of each other can have any bits
+      if (state.tolerant) return SEED_NUMBER;
+      return state.options.strictZero && value === 0 && 1 / value < 0 ? SEED_NEGATIVE_ZERO : hashNumber(value);
+    case 'string': return hashString(value);
+    case 'boolean': return value ? 1231 : 1237;
+    case 'bigint': return mix(SEED_BIGINT, hashString(value.toString()));
+    case 'undefined': return SEED_UNDEFINED;
+    case 'symbol': return mix(SEED_SYMBOL, hashString(value.description ?? ''));
+    case 'function': return mix(SEED_FUNCTION, hashString(value.name));
+  }
+  return SEED_NULL;
+}
+
+function hashChild(value: unknown, segment: PathSegment, state: HashState, depth: number): number {
+  if (!isObjectLike(value)) return hashPrimitive(value, state);
+  const path = state.path;
+  if (path === null) return hashObject(value, state, depth);
+  path.push(segment);
+  const hash = hashObject(value, state, depth);
+  path.pop();
+  return hash;
+}
+
+/**
+ * Hash of an object reaching no cycle. Objects that do reach one get a placeholder
+ * and are hashed by `hashUnfolded` once everything below the root is known.
+ */
+function hashObject(obj: object, state: HashState, depth: number): number {
+  // Both may equal values of any shape
+  if (isAsymmetricMatcher(obj) || isDeepEquatable(obj)) return SEED_ANY;
+  const known = state.complete.get(obj);
+  if (known !== undefined) {
+    // Hashing the object again here would cut it off when it no longer fits above the depth limit
+    const deepest = depth + state.heights.get(obj)!;
+    if (deepest <= state.depthLimit) {
+      if (deepest > state.deepest) state.deepest = deepest;
+      return known;
+    }
+  }
+  if (state.ancestors.has(obj) || state.cyclic.has(obj)) {
+    state.reachesCycle = true;
+    return SEED_CIRCULAR;
+  }
+  if (depth > state.depthLimit) {
+    // Nothing below maxDepth is equal and everything below HASH_DEPTH hashes alike, so a constant
+    // will do, as long as it is not remembered for the objects above
+    state.truncated = true;
+    return SEED_ANY;
+  }
+
+  const outerReachesCycle = state.reachesCycle;
+  const outerTruncated = state.truncated;
+  const outerDeepest = state.deepest;
+  state.reachesCycle = false;
+  state.truncated = false;
+  state.deepest = depth;
+  state.ancestors.add(obj);
+  const hash = hashContents(obj, state, (value, segment) => hashChild(value, segment, state, depth + 1));
+  state.ancestors.delete(obj);
+
+  // What is hashed depends on the path with path filters, so nothing is remembered then
+  if (state.path === null) {
+    if (state.reachesCycle) {
+      state.cyclic.add(obj);
+    } else if (!state.truncated) {
+      state.complete.set(obj, hash);
+      state.heights.set(obj, state.deepest - depth);
+    }
+  }
+  state.reachesCycle = state.reachesCycle || outerReachesCycle;
+  state.truncated = state.truncated || outerTruncated;
+  if (outerDeepest > state.deepest) state.deepest = outerDeepest;
+  return hash;
+}
+
+/**
+ * Hash of the first `levels` levels of the unfolding of an object reaching a cycle.
+ * Equal cyclic structures need not share objects in the same places: `[x, x]` equals
+ * `[y, copyOfY]` for self-referencing `x` and `y`. What they share is their unfolding into
+ * an infinite tree.
+ * Objects reaching no cycle contribute their complete hash.
+ */
+function hashUnfolded(obj: object, state: HashState, levels: number): number {
+  if (levels === 0) return SEED_CIRCULAR;
+  const memo = state.unfolded[levels] ?? (state.unfolded[levels] = new Map());
+  const known = memo.get(obj);
+  if (known !== undefined) return known;
+  const hash = hashContents(obj, state, value => {
+    if (!isObjectLike(value)) return hashPrimitive(value, state);
+    if (isAsymmetricMatcher(value) || isDeepEquatable(value)) return SEED_ANY;
+    return state.complete.get(value) ?? hashUnfolded(value, state, levels - 1);
+  });
+  memo.set(obj, hash);
+  return hash;
+}
+
+/**
+ * Hash of what `deepEqualCore` compares of an object, type by type
+ */
+function hashContents(obj: any, state: HashState, child: ChildHash): number {
+  const options = state.options;
+  if (Array.isArray(obj)) return hashArray(obj, state, child);
+
+  const tag = typeTag(obj);
+  const bytes = binaryBytes(obj, tag);
+  if (bytes !== null) return hashBinary(obj, bytes, tag, state);
+  switch (tag) {
+    case '[object Object]': break;
+    case '[object RegExp]': return mix(mix(hashString(tag), hashString(obj.source)), hashString(obj.flags));
+    case '[object Date]': return mix(hashString(tag), hashNumber(obj.getTime()));
+    case '[object Error]': return mix(mix(hashString(tag), child(obj.name, 'name')), child(obj.message, 'message'));
+    case '[object Set]': return hashSet(obj, tag, child);
+    case '[object Map]': return hashMap(obj, tag, state, child);
+    case '[object URL]': return mix(hashString(tag), hashString(obj.href));
+    case '[object URLSearchParams]':
+    case '[object Headers]':
+    case '[object FormData]':
+      return hashSequence(hashString(tag), Array.from(obj), child);
+    default: {
+      // Temporal values are compared by their own `equals`
+      if (IDENTITY_TAGS.has(tag) || tag.startsWith('[object Temporal.')) return hashString(tag);
+      const primitive = unbox(obj, tag);
+      if (primitive !== NOT_BOXED) return mix(hashString(tag), hashPrimitive(primitive, state));
+    }
+  }
+
+  if (options.useValueOf && definesValueOf(obj)) {
+    let converted: unknown = obj;
+    try {
+      converted = obj.valueOf();
+    } catch {
+      // Compared by their properties instead, like Temporal values refusing conversion
+    }
+    if (!isObjectLike(converted)) return mix(SEED_VALUE_OF, hashPrimitive(converted, state));
+  }
+  if (options.compareIterables && typeof obj[Symbol.iterator] === 'function') {
+    return hashSequence(SEED_ITERABLE, Array.from(obj), child);
+  }
+  return hashProperties(obj, state, child);
+}
+
+function hashSequence(seed: number, items: readonly unknown[], child: ChildHash): number {
+  let hash = mix(seed, items.length);
+  for (let i = 0; i < items.length; i++) {
+    hash = mix(hash, child(items[i], i));
+  }
+  return hash;
+}
+
+function hashArray(arr: readonly unknown[], state: HashState, child: ChildHash): number {
+  const { options, path } = state;
+  // Without a path, any array may be unordered as soon as some are
+  if (path === null ? hasUnorderedArrays(options) : !isOrderedAt(options, path)) {
+    let sum = 0;
+    for (let i = 0; i < arr.length; i++) {
+      sum = (sum + mix(SEED_ARRAY, child(arr[i], i))) >>> 0;
+    }
+    return mix(mix(SEED_ARRAY, arr.length), sum);
+  }
+  if (path !== null) {
+    // Excluded indices take no part, and neither does the length
+    let hash = SEED_ARRAY;
+    for (let i = 0; i < arr.length; i++) {
+      if (!isExcluded(state, i, arr[i])) hash = mix(mix(hash, i), child(arr[i], i));
+    }
+    return hash;
+  }
+  return hashSequence(SEED_ARRAY, arr, child);
+}
+
+function hashBinary(obj: ArrayBufferView | ArrayBuffer, bytes: Uint8Array, tag: string, state: HashState): number {
+  // Any two binary values holding the same bytes are equal
+  if (state.options.compareBufferBytes) return hashBytes(SEED_BUFFER, bytes);
+  const seed = hashString(tag);
+  if (ArrayBuffer.isView(obj) && tag !== '[object DataView]') {
+    const elements = obj as unknown as ArrayLike<number | bigint>;
+    if (state.tolerant) return mix(seed, elements.length);
+    if (isFloatArrayTag(tag)) {
+      // Compared element by element, so NaNs and zeros with different bits can be equal
+      let hash = mix(seed, elements.length);
+      for (let i = 0; i < elements.length; i++) {
+        hash = mix(hash, hashNumber(elements[i] as number));
+      }
+      return hash;
+    }
+  }
+  return hashBytes(seed, bytes);
+}
+
+function hashBytes(seed: number, bytes: Uint8Array): number {
+  let hash = mix(seed, bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    hash = mix(hash, bytes[i]);
+  }
+  return hash;
+}
+
+function hashSet(set: Set<unknown>, tag: string, child: ChildHash): number {
+  // Members combine with addition so their order does not matter
+  let sum = 0;
+  for (const member of set) {
+    sum = (sum + mix(SEED_OBJECT, child(member, { kind: 'set-entry', value: member }))) >>> 0;
+  }
+  return mix(mix(hashString(tag), set.size), sum);
+}
+
+function hashMap(map: Map<unknown, unknown>, tag: string, state: HashState, child: ChildHash): number {
+  let size = 0;
+  let sum = 0;
+  for (const [key, value] of map) {
+    const segment: PathSegment = { kind: 'map-key', key };
+    if (state.path !== null && isExcluded(state, segment, value)) continue;
+    size++;
+    sum = (sum + mix(child(key, segment), child(value, segment))) >>> 0;
+  }
+  return mix(mix(hashString(tag), size), sum);
+}
+
+function hashProperties(obj: Record<PropertyKey, unknown>, state: HashState, child: ChildHash): number {
+  const options = state.options;
+  const keys = ownKeys(obj, options);
+  let count = 0;
+  let sum = 0;
+  for (let i = 0; i < keys.length; i++) {
+    const key = keys[i];
+    if (state.path !== null && isExcluded(state, key, obj[key])) continue;
+    let element: number;
+    // Accessors compared by identity must not be invoked here either
+    if (options.compareDescriptors && isAccessor(obj, key)) {
+      element = SEED_ACCESSOR;
+    } else {
+      const value = obj[key];
+      if (value === undefined && options.undefinedEqualsMissing) continue;
+      element = child(value, key);
+    }
+    count++;
+    const keyHash = typeof key === 'string' ? hashString(key) : mix(SEED_SYMBOL, hashString(key.description ?? ''));
+    sum = (sum + mix(keyHash, element)) >>> 0;
+  }
+  return mix(mix(SEED_OBJECT, count), sum);
+}
+
+/**
+ * `ignorePaths`/`onlyPaths` check for a child, like the comparison's but seeing one
+ * side only: a child the other side has more to descend into is not equal anyway
+ */
+function isExcluded(state: HashState, segment: PathSegment, value: unknown): boolean {
+  const { ignorePaths, onlyPaths } = state.options;
+  const path = state.path!;
+  path.push(segment);
+  let excluded = ignorePaths.some(pattern => matchPath(pattern, path));
+  if (!excluded && onlyPaths !== null) {
+    excluded = !onlyPaths.some(pattern =>
+      matchPath(pattern, path, true) || isObjectLike(value) && matchPathPartial(pattern, path));
+  }
+  path.pop();
+  return excluded;
+}
+
+function isOrderedAt(options: RequiredDeepEqualOptions, path: PathSegment[]): boolean {
+  for (let i = 0; i < options.arrayOrderPaths.length; i++) {
+    if (matchPath(options.arrayOrderPaths[i][0], path)) return options.arrayOrderPaths[i][1] === 'strict';
+  }
+  return options.arrayOrder === 'strict';
+}
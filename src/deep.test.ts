@@ -0,0 +1,137 @@
+import { createDeepEqual, deepDiff, deepEqualCheck } from './index';
+import type { DeepEqualOptions } from './index';
+
+/** Wraps `leaf` in `levels` values made by `wrap` */
+const nest = (levels: number, wrap: (value: unknown, level: number) => unknown, leaf: unknown): unknown => {
+  let value = leaf;
+  for (let i = 0; i < levels; i++) value = wrap(value, i);
+  return value;
+};
+
+const list = (length: number, end: unknown = 0) => nest(length, (next, v) => ({ v, next }), { end });
+
+class Node {
+  constructor(public child: unknown) {}
+}
+
+/** One container of every kind in turn */
+const mixed = (child: unknown, level: number): unknown => {
+  switch (level % 7) {
+    case 0: return { child };
+    case 1: return [child];
+    case 2: return new Map([['child', child]]);
+    case 3: return new Set([child]);
+    case 4: return new Map([[{ key: level }, child]]);
+    case 5: return new Node(child);
+    default: return Object.assign(new Error('wrapper'), { child });
+  }
+};
+
+const DEEP = 100000;
+
+describe('deeply nested values', () => {
+  it('compares linked lists far deeper than the call stack allows', () => {
+    expect(deepEqualCheck(list(DEEP), list(DEEP))).toBe(true);
+    expect(deepEqualCheck(list(DEEP), list(DEEP, 1))).toBe(false);
+    expect(deepEqualCheck(list(DEEP), list(DEEP + 1))).toBe(false);
+  });
+
+  it('compares every kind of container at depth', () => {
+    const leaf = () => [new Float64Array([1, NaN]), new Uint8Array([1, 2]), new Date(0), /x/g];
+    expect(deepEqualCheck(nest(20000, mixed, leaf()), nest(20000, mixed, leaf()))).toBe(true);
+    expect(deepEqualCheck(nest(20000, mixed, leaf()), nest(20000, mixed, [new Float64Array([1, 2])]))).toBe(false);
+    expect(deepEqualCheck(nest(20000, mixed, leaf()), nest(20000, mixed, leaf()), { mode: 'strict' })).toBe(true);
+  });
+
+  it('lines up cycles closing far below where they start', () => {
+    const ring = (length: number) => {
+      const first: Record<string, unknown> = {};
+      let last = first;
+      for (let i = 1; i < length; i++) last = (last.next = {}) as Record<string, unknown>;
+      last.next = first;
+      return first;
+    };
+    expect(deepEqualCheck(ring(50000), ring(50000))).toBe(true);
+    expect(deepEqualCheck(ring(50000), ring(25000))).toBe(false);
+    expect(deepEqualCheck(ring(50000), ring(50000), { mode: 'strict' })).toBe(true);
+  });
+
+  it('still honours maxDepth', () => {
+    expect(deepEqualCheck(list(DEEP), list(DEEP), { maxDepth: 5000 })).toBe(false);
+    expect(deepEqualCheck(list(DEEP), list(DEEP), { maxDepth: DEEP + 1 })).toBe(true);
+    expect(deepDiff(list(2000), list(2000), { maxDepth: 1000 })[0]!.kind).toBe('maxDepthExceeded');
+  });
+
+  it('applies the options at depth', () => {
+    expect(deepEqualCheck(list(20000, [1, 2]), list(20000, [2, 1]), { arrayOrder: 'ignore' })).toBe(true);
+    expect(deepEqualCheck(list(20000, { a: 1, b: 2 }), list(20000, { a: 1 }), { partial: true })).toBe(true);
+    expect(deepEqualCheck(list(20000, { a: undefined }), list(20000, {}), { undefinedEqualsMissing: true })).toBe(true);
+    // Path patterns are matched against the whole path at every level
+    expect(deepEqualCheck(list(2000, 1), list(2000, 2), { ignorePaths: ['**.end'] })).toBe(true);
+    expect(deepEqualCheck(list(2000, 1), list(2000, 2), { onlyPaths: ['**.v'] })).toBe(true);
+    expect(deepEqualCheck(list(20000), list(20000), { mode: 'loose' })).toBe(true);
+    expect(createDeepEqual({}, { reuseState: true })(list(20000), list(20000))).toBe(true);
+  });
+
+  it('reports differences at depth', () => {
+    const diffs = deepDiff(list(10000, 1), list(10000, 2));
+    expect(diffs).toHaveLength(1);
+    expect(diffs[0]!.path).toHaveLength(10001);
+    expect(diffs[0]!.path.slice(-2)).toEqual(['next', 'end']);
+  });
+});
+
+describe('comparisons below the depth where the explicit stack takes over', () => {
+  const x = { v: 1 };
+  const loop: Record<string, unknown> = { v: 1 };
+  loop.self = loop;
+  const twoStep: Record<string, unknown> = { v: 1 };
+  twoStep.self = { v: 1, self: twoStep };
+
+  const pairs: Array<[unknown, unknown]> = [
+    [{ a: 1, b: [1, 2] }, { a: 1, b: [1, 2] }],
+    [{ a: 1, b: [1, 2] }, { a: 1, b: [2, 1] }],
+    [{ a: 1 }, { a: 1, b: undefined }],
+    [{ a: 1, b: 2 }, { a: 1 }],
+    [[1, [2, [3]]], [1, [2, [3]]]],
+    [[1, 2, 3], [1, 2]],
+    [new Set([{ a: 1 }, { a: 2 }]), new Set([{ a: 2 }, { a: 1 }])],
+    [new Set([1, 2, 3]), new Set([1, 2])],
+    [new Map<unknown, unknown>([[{ k: 1 }, 'a'], ['p', [1]]]), new Map<unknown, unknown>([['p', [1]], [{ k: 1 }, 'a']])],
+    [new Map([['p', { deep: 1 }]]), new Map([['p', { deep: 2 }]])],
+    [new Uint8Array([1, 2]), new Uint8Array([1, 2])],
+    [new Float32Array([NaN, 0]), new Float32Array([NaN, -0])],
+    [Object.assign(new Error('e'), { code: 1 }), Object.assign(new Error('e'), { code: 1 })],
+    [new TypeError('e'), new RangeError('e')],
+    [new URLSearchParams('a=1&b=2'), new URLSearchParams('a=1&b=3')],
+    [new Node([1]), new Node([1])],
+    [new Node(1), { child: 1 }],
+    [[x, x], [{ v: 1 }, { v: 1 }]],
+    [loop, twoStep],
+    [loop, { v: 1, self: { v: 1, self: loop } }],
+    [{ n: 1.0001 }, { n: 1 }],
+  ];
+  const optionSets: DeepEqualOptions[] = [
+    {},
+    { mode: 'strict' },
+    { mode: 'loose' },
+    { arrayOrder: 'ignore' },
+    { partial: true },
+    { undefinedEqualsMissing: true },
+    { ignorePaths: ['**.b'] },
+    { preserveSharedReferences: true },
+    { epsilon: 0.01 },
+  ];
+  // Deep enough for the values to be compared on the explicit stack
+  const wrap = (value: unknown) => nest(300, child => ({ child }), value);
+
+  for (const options of optionSets) {
+    it(`gives the results of the recursive comparison with ${JSON.stringify(options)}`, () => {
+      for (const [a, b] of pairs) {
+        expect(deepEqualCheck(wrap(a), wrap(b), options)).toBe(deepEqualCheck(a, b, options));
+        const diffs = deepDiff(wrap(a), wrap(b), options).map(diff => ({ ...diff, path: diff.path.slice(300) }));
+        expect(diffs).toEqual(deepDiff(a, b, options));
+      }
+    });
+  }
+});
@@ -0,0 +1,48 @@
+import { compareRoot, createState } from './core';
+import { createLimits, now } from './limits';
+import type { DeepEqualOptions, DeepEqualResult } from './types';
+
+/**
+ * Deep equality with the reason for the result
+ *
+ * Runs the same comparison as `deepEqualCheck`, and tells values found different
+ * from values the comparison could not decide: when `maxDepth`, `maxNodes`,
+ * `maxTimeMs` or `signal` stops it before a difference is found, `equal` is
+ * `'unknown'` rather than false. Values found equal are equal whatever limits
+ * were reached on the way.
+ *
+ * @param a - First value to compare
+ * @param b - Second value to compare
+ * @param options - Comparison options (same as `deepEqualCheck`)
+ * @returns The result, the kind and path of the difference or limit behind it, and the work done
+ *
+ * @example
+ * ```typescript
+ * import { deepEqualDetailed } from 'deep-equal-check';
+ *
+ * deepEqualDetailed({ user: { name: 'Ann' } }, { user: { name: 'Bob' } });
+ * // { equal: false, reason: 'changed', path: ['user', 'name'], stats: { nodes: 3, depth: 2, timeMs: 0.01 } }
+ *
+ * deepEqualDetailed(hugePayload, cached, { maxNodes: 10000 });
+ * // { equal: 'unknown', reason: 'maxNodes', path: [...], stats: { nodes: 10001, ... } }
+ * ```
+ */
+export function deepEqualDetailed<T = unknown>(
+  a: T,
+  b: T,
+  options: DeepEqualOptions = {}
+): DeepEqualResult {
+  const state = createState(options, true);
+  const limits = state.limits ??= createLimits();
+  limits.stopAtDifference = true;
+
+  const started = now();
+  const equal = compareRoot(a, b, state);
+  const stats = { nodes: limits.nodes, depth: limits.deepest, timeMs: now() - started };
+
+  if (equal) return { equal, reason: null, path: [], stats };
+  // A limit reached before the first difference may be what made the values look different
+  if (limits.reached !== null) return { equal: 'unknown', reason: limits.reached.reason, path: limits.reached.path, stats };
+  const { kind, path } = state.diffs![0];
+  return { equal, reason: kind, path, stats };
+}
@@ -0,0 +1,111 @@
+import { deepDiff, deepEqualCheck } from './index';
+import type { DeepEqualOptions } from './index';
+
+describe('deepDiff', () => {
+  it('returns an empty list for deeply equal values', () => {
+    expect(deepDiff({ a: [1, 2], b: new Set([1]) }, { a: [1, 2], b: new Set([1]) })).toEqual([]);
+  });
+
+  it('reports changed leaf values with their path', () => {
+    expect(deepDiff({ user: { name: 'Ann' } }, { user: { name: 'Bob' } })).toEqual([
+      { path: ['user', 'name'], kind: 'changed', a: 'Ann', b: 'Bob' },
+    ]);
+  });
+
+  it('reports added and removed keys', () => {
+    expect(deepDiff<object>({ a: 1, b: 2 }, { a: 1, c: 3 })).toEqual([
+      { path: ['b'], kind: 'removed', a: 2, b: undefined },
+      { path: ['c'], kind: 'added', a: undefined, b: 3 },
+    ]);
+  });
+
+  it('reports type mismatches', () => {
+    expect(deepDiff<unknown>({ a: 1 }, { a: '1' })).toEqual([
+      { path: ['a'], kind: 'typeMismatch', a: 1, b: '1' },
+    ]);
+    expect(deepDiff<unknown>({ a: null }, { a: {} })[0]!.kind).toBe('typeMismatch');
+  });
+
+  it('reports array length mismatches along with element differences', () => {
+    const diffs = deepDiff([1, 2, 3], [1, 5]);
+    expect(diffs).toEqual([
+      { path: [], kind: 'lengthMismatch', a: [1, 2, 3], b: [1, 5] },
+      { path: [1], kind: 'changed', a: 2, b: 5 },
+    ]);
+  });
+
+  it('reports constructor mismatches when checkPrototypes is enabled', () => {
+    class Foo { x = 1; }
+    class Bar { x = 1; }
+    expect(deepDiff<object>(new Foo(), new Bar())).toEqual([]);
+    expect(deepDiff<object>(new Foo(), new Bar(), { checkPrototypes: true })[0]!.kind)
+      .toBe('constructorMismatch');
+  });
+
+  it('reports Set members with set-entry segments', () => {
+    const diffs = deepDiff({ users: [{ tags: new Set(['a', 'b']) }] }, { users: [{ tags: new Set(['a', 'c']) }] });
+    expect(diffs).toEqual([
+      { path: ['users', 0, 'tags', { kind: 'set-entry', value: 'b' }], kind: 'removed', a: 'b', b: undefined },
+      { path: ['users', 0, 'tags', { kind: 'set-entry', value: 'c' }], kind: 'added', a: undefined, b: 'c' },
+    ]);
+  });
+
+  it('reports nested Map value differences under map-key segments', () => {
+    const diffs = deepDiff(new Map([['k', { v: 1 }]]), new Map([['k', { v: 2 }]]));
+    expect(diffs).toEqual([
+      { path: [{ kind: 'map-key', key: 'k' }, 'v'], kind: 'changed', a: 1, b: 2 },
+    ]);
+  });
+
+  it('reports TypedArray element differences by index', () => {
+    expect(deepDiff(new Uint8Array([1, 2, 3]), new Uint8Array([1, 9, 3]))).toEqual([
+      { path: [1], kind: 'changed', a: 2, b: 9 },
+    ]);
+  });
+
+  it('honours nanEqual, strictZero and maxDepth', () => {
+    expect(deepDiff(NaN, NaN)).toEqual([]);
+    expect(deepDiff(NaN, NaN, { nanEqual: false })).toHaveLength(1);
+    expect(deepDiff(0, -0)).toEqual([]);
+    expect(deepDiff(0, -0, { strictZero: true })).toHaveLength(1);
+    expect(deepDiff({ a: { b: {} } }, { a: { b: {} } }, { maxDepth: 1 })[0]!.kind).toBe('maxDepthExceeded');
+  });
+
+  it('is empty exactly when deepEqualCheck returns true', () => {
+    const circularA: any = { foo: 1 };
+    circularA.self = circularA;
+    const circularB: any = { foo: 1 };
+    circularB.self = circularB;
+    const pairs: Array<[unknown, unknown]> = [
+      [circularA, circularB],
+      [{ foo: 1, self: circularA }, circularB],
+      [new Map<any, any>([[{ x: 1 }, 1], [{ x: 1 }, 2]]), new Map<any, any>([[{ x: 1 }, 2], [{ x: 1 }, 1]])],
+      [new Map([['a', 1]]), new Map([['a', 1], ['b', 2]])],
+      [new Set([{ a: 1 }, { a: 2 }]), new Set([{ a: 2 }, { a: 3 }])],
+      [[1, [2, [3]]], [1, [2, [4]]]],
+      [new Date(0), new Date(1)],
+      [/a/g, /a/i],
+      [new Error('x'), new Error('y')],
+    ];
+    for (const [a, b] of pairs) {
+      expect(deepDiff(a, b).length === 0).toBe(deepEqualCheck(a, b));
+    }
+  });
+
+  it('agrees with deepEqualCheck on primitives and identical values, which it settles up front', () => {
+    const value = { a: [0] };
+    const pairs: Array<[unknown, unknown]> = [
+      [value, value], [0, -0], [-0, -0], [NaN, NaN], [1, 1 + 1e-12], [1, '1'], [null, undefined],
+      [1n, 1n], [1n, 1], ['a', 'b'], [true, 1], [Symbol.iterator, Symbol.iterator],
+    ];
+    const optionSets: DeepEqualOptions[] = [
+      {}, { mode: 'strict' }, { mode: 'loose' }, { nanEqual: false }, { strictZero: true }, { epsilon: 1e-9 },
+      { ignorePaths: ['**.a'] }, { pathTolerances: [['', { epsilon: 1e-9 }]] },
+    ];
+    for (const options of optionSets) {
+      for (const [a, b] of pairs) {
+        expect(deepDiff(a, b, options).length === 0).toBe(deepEqualCheck(a, b, options));
+      }
+    }
+  });
+});
@@ -0,0 +1,32 @@
+import { compareRoot, createState } from './core';
+import type { DeepDiffEntry, DeepEqualOptions } from './types';
+
+/**
+ * Structural diff of two values
+ *
+ * Runs the same traversal as `deepEqualCheck` but keeps going after the first
+ * difference, collecting every mismatch together with the path where it occurs.
+ * The result is empty exactly when `deepEqualCheck(a, b, options)` returns true.
+ *
+ * @param a - First value to compare
+ * @param b - Second value to compare
+ * @param options - Comparison options (same as `deepEqualCheck`)
+ * @returns List of differences, empty if the values are deeply equal
+ *
+ * @example
+ * ```typescript
+ * import { deepDiff } from 'deep-equal-check';
+ *
+ * deepDiff({ user: { name: 'Ann', tags: ['a'] } }, { user: { name: 'Bob', tags: ['a'] } });
+ * // [{ path: ['user', 'name'], kind: 'changed', a: 'Ann', b: 'Bob' }]
+ * ```
+ */
+export function deepDiff<T = unknown>(
+  a: T,
+  b: T,
+  options: DeepEqualOptions = {}
+): DeepDiffEntry[] {
+  const state = createState(options, true);
+  compareRoot(a, b, state);
+  return state.diffs!;
+}
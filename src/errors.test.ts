@@ -0,0 +1,83 @@
+import { deepDiff, deepEqualCheck } from './index';
+
+// Not part of the ES2020 typings the library is compiled against
+const CausedError = Error as new (message: string, options?: { cause?: unknown }) => Error;
+const AggregateError = (globalThis as any).AggregateError as new (errors: unknown[], message: string) => Error;
+
+class HttpError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+describe('Error comparison', () => {
+  it('compares message and name of every error class', () => {
+    expect(deepEqualCheck(new TypeError('a'), new TypeError('a'))).toBe(true);
+    expect(deepEqualCheck(new TypeError('a'), new TypeError('b'))).toBe(false);
+    expect(deepEqualCheck(new RangeError('a'), new TypeError('a'))).toBe(false);
+    expect(deepEqualCheck(new HttpError('a', 404), new HttpError('b', 404))).toBe(false);
+  });
+
+  it('compares extra own properties of custom errors', () => {
+    expect(deepEqualCheck(new HttpError('a', 404), new HttpError('a', 404))).toBe(true);
+    expect(deepEqualCheck(new HttpError('a', 404), new HttpError('a', 500))).toBe(false);
+  });
+
+  it('compares code whether or not it is enumerable', () => {
+    const withCode = (code?: string) => Object.assign(new Error('a'), code === undefined ? {} : { code });
+    expect(deepEqualCheck(withCode('E1'), withCode('E1'))).toBe(true);
+    expect(deepEqualCheck(withCode('E1'), withCode('E2'))).toBe(false);
+    expect(deepEqualCheck(withCode('E1'), withCode())).toBe(false);
+    const hidden = Object.defineProperty(new Error('a'), 'code', { value: 'E2', enumerable: false });
+    expect(deepEqualCheck(withCode('E1'), hidden)).toBe(false);
+  });
+
+  it('compares causes recursively', () => {
+    const root = () => new CausedError('root', { cause: { id: 1 } });
+    expect(deepEqualCheck(new CausedError('a', { cause: root() }), new CausedError('a', { cause: root() }))).toBe(true);
+    expect(deepEqualCheck(
+      new CausedError('a', { cause: root() }),
+      new CausedError('a', { cause: new CausedError('root', { cause: { id: 2 } }) })
+    )).toBe(false);
+    expect(deepEqualCheck(new CausedError('a', { cause: undefined }), new Error('a'))).toBe(false);
+  });
+
+  it('handles errors that are their own cause', () => {
+    const a = new Error('loop');
+    (a as any).cause = a;
+    const b = new Error('loop');
+    (b as any).cause = b;
+    expect(deepEqualCheck(a, b)).toBe(true);
+  });
+
+  it('compares the errors of an AggregateError', () => {
+    const aggregate = (...messages: string[]) => new AggregateError(messages.map(message => new Error(message)), 'many');
+    expect(deepEqualCheck(aggregate('x', 'y'), aggregate('x', 'y'))).toBe(true);
+    expect(deepEqualCheck(aggregate('x', 'y'), aggregate('x', 'z'))).toBe(false);
+  });
+
+  it('ignores the stack unless compareErrorStack is set', () => {
+    const a = new Error('a');
+    const b = new Error('a');
+    b.stack = 'elsewhere';
+    expect(deepEqualCheck(a, b)).toBe(true);
+    expect(deepEqualCheck(a, b, { compareErrorStack: true })).toBe(false);
+  });
+
+  it('does not equal plain objects shaped like errors', () => {
+    expect(deepEqualCheck<object>(new Error('a'), { name: 'Error', message: 'a' })).toBe(false);
+  });
+
+  it('finds errors in Sets by their contents', () => {
+    expect(deepEqualCheck(new Set([new TypeError('a'), new TypeError('b')]), new Set([new TypeError('b'), new TypeError('a')]))).toBe(true);
+    expect(deepEqualCheck(new Set([new TypeError('a')]), new Set([new TypeError('b')]))).toBe(false);
+  });
+
+  it('reports error property differences', () => {
+    expect(deepDiff(new HttpError('a', 404), new HttpError('b', 500))).toEqual([
+      { path: ['message'], kind: 'changed', a: 'a', b: 'b' },
+      { path: ['status'], kind: 'changed', a: 404, b: 500 },
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import { createDeepEqual, deepEqualCheck } from './index';
+
+describe('createDeepEqual', () => {
+  it('compares like deepEqualCheck with the same options', () => {
+    const options = { ignorePaths: ['**.id'], arrayOrder: 'ignore' as const };
+    const equal = createDeepEqual(options);
+    const pairs: Array<[unknown, unknown]> = [
+      [{ id: 1, tags: ['a', 'b'] }, { id: 2, tags: ['b', 'a'] }],
+      [{ id: 1, tags: ['a'] }, { id: 1, tags: ['b'] }],
+      [new Set([{ id: 1, v: 1 }]), new Set([{ id: 2, v: 1 }])],
+      [NaN, NaN],
+      [1, '1'],
+    ];
+    for (const [a, b] of pairs) {
+      expect(equal(a, b)).toBe(deepEqualCheck(a, b, options));
+    }
+  });
+
+  it('keeps honouring options for identical values', () => {
+    expect(createDeepEqual({ strictZero: true })(0, -0)).toBe(false);
+    const rejectAll = createDeepEqual({ customizers: { byPath: [['', () => false]] } });
+    const value = { a: 1 };
+    expect(rejectAll(value, value)).toBe(false);
+  });
+
+  it('does not keep options objects it was created with in sync', () => {
+    const options = { strictZero: false };
+    const equal = createDeepEqual(options);
+    options.strictZero = true;
+    expect(equal(0, -0)).toBe(true);
+  });
+
+  describe('with reuseState', () => {
+    it('starts every call afresh', () => {
+      const equal = createDeepEqual({}, { reuseState: true });
+      const shared = { v: 1 };
+      expect(equal([shared], [{ v: 1 }])).toBe(true);
+      // The pairing of `shared` from the previous call must not leak into this one
+      expect(equal([shared], [{ v: 1 }])).toBe(true);
+      expect(equal([shared], [{ v: 2 }])).toBe(false);
+      expect(equal([shared], [{ v: 1 }])).toBe(true);
+    });
+
+    it('handles circular references', () => {
+      const cycle = () => {
+        const node: Record<string, unknown> = { v: 1 };
+        node.self = node;
+        return node;
+      };
+      const equal = createDeepEqual({}, { reuseState: true });
+      expect(equal(cycle(), cycle())).toBe(true);
+      expect(equal(cycle(), { v: 1, self: { v: 2 } })).toBe(false);
+    });
+
+    it('gives nested calls a state of their own', () => {
+      const equal: (a: unknown, b: unknown) => boolean = createDeepEqual({
+        customizers: { byPath: [['inner', (a, b) => equal(a, b)]] },
+      }, { reuseState: true });
+      expect(equal({ inner: { x: [1] }, y: 1 }, { inner: { x: [1] }, y: 1 })).toBe(true);
+      expect(equal({ inner: { x: [1] }, y: 1 }, { inner: { x: [2] }, y: 1 })).toBe(false);
+    });
+
+    it('recovers from exceptions thrown during a comparison', () => {
+      let shouldThrow = true;
+      const equal = createDeepEqual({
+        mode: 'strict',
+        ignorePaths: ['skip'],
+        customizers: {
+          byPath: [['a.b', () => {
+            if (shouldThrow) throw new Error('boom');
+            return undefined;
+          }]],
+        },
+      }, { reuseState: true });
+      const value = () => ({ a: { b: 1 }, skip: 1 });
+      expect(() => equal(value(), value())).toThrow('boom');
+      shouldThrow = false;
+      expect(equal(value(), value())).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { compareRoot, createResolvedState } from './core';
+import { resolveOptions } from './options';
+import { truncatePathMatcher } from './paths';
+import type { DeepEqualFactoryOptions, DeepEqualFunction, DeepEqualOptions } from './types';
+
+/**
+ * Creates a comparator with its options fixed
+ *
+ * Defaults are resolved and path patterns compiled once instead of on every call,
+ * and checks that only depend on the options are settled up front. For hot paths
+ * comparing many pairs with the same options, such as memoized selectors.
+ *
+ * @param options - Comparison options (same as `deepEqualCheck`)
+ * @param factoryOptions - How the comparator manages its traversal state
+ * @returns Function comparing two values like `deepEqualCheck(a, b, options)`
+ *
+ * @example
+ * ```typescript
+ * import { createDeepEqual } from 'deep-equal-check';
+ *
+ * const equalIgnoringIds = createDeepEqual({ ignorePaths: ['**.id'] }, { reuseState: true });
+ * equalIgnoringIds({ id: 1, name: 'Ann' }, { id: 2, name: 'Ann' }); // true
+ * ```
+ */
+export function createDeepEqual(
+  options: DeepEqualOptions = {},
+  factoryOptions: DeepEqualFactoryOptions = {}
+): DeepEqualFunction {
+  const resolved = resolveOptions(options);
+  // Identical values are equal unless a path customizer may say otherwise at the root or zeros need telling apart
+  const identityEquals = !resolved.strictZero &&
+    (resolved.customizers === null || resolved.customizers.byPath.length === 0);
+
+  if (!factoryOptions.reuseState) {
+    return (a, b) => (a === b && identityEquals) || compareRoot(a, b, createResolvedState(resolved, false));
+  }
+
+  const state = createResolvedState(resolved, false);
+  // Maps rather than WeakMaps, so what a call remembers can be cleared after it
+  const remembered: Array<Map<object, unknown>> = [];
+  const clearable = <T>(map: Map<object, T>): Map<object, T> => {
+    remembered.push(map);
+    return map;
+  };
+  if (state.pairs !== null && state.pairs.remember) {
+    state.pairs.equalTo = clearable(new Map());
+    state.pairs.equalHeight = clearable(new Map());
+  }
+  if (state.shared !== null) state.shared = { a: clearable(new Map()), b: clearable(new Map()) };
+  let busy = false;
+  return (a, b) => {
+    if (a === b && identityEquals) return true;
+    if (busy) return compareRoot(a, b, createResolvedState(resolved, false));
+    busy = true;
+    try {
+      return compareRoot(a, b, state);
+    } finally {
+      // Also after an exception (e.g. thrown by a customizer), so the next call starts clean
+      for (const map of remembered) map.clear();
+      if (state.pairs !== null) {
+        state.pairs.a.length = 0;
+        state.pairs.b.length = 0;
+        state.pairs.deepA = null;
+        state.pairs.deepB = null;
+        state.pairs.closedAt = Infinity;
+      }
+      if (state.path !== null) state.path.length = 0;
+      if (state.pathMatcher !== null) truncatePathMatcher(state.pathMatcher, 0);
+      if (state.stack !== null) state.stack.clear();
+      busy = false;
+    }
+  };
+}
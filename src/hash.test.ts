@@ -0,0 +1,99 @@
+import { any, deepDiff, deepEqualCheck } from './index';
+import { structuralHash } from './hash';
+
+describe('structuralHash', () => {
+  it('hashes equal values the same regardless of key order', () => {
+    expect(structuralHash({ a: 1, b: [1, 'x'] })).toBe(structuralHash({ b: [1, 'x'], a: 1 }));
+    expect(structuralHash(new Date(5))).toBe(structuralHash(new Date(5)));
+    expect(structuralHash(new Set([1, 2]))).toBe(structuralHash(new Set([2, 1])));
+  });
+
+  it('hashes NaN and both zeros the same', () => {
+    expect(structuralHash(NaN)).toBe(structuralHash(NaN));
+    expect(structuralHash(0)).toBe(structuralHash(-0));
+  });
+
+  it('tells common differences apart', () => {
+    expect(structuralHash({ a: 1 })).not.toBe(structuralHash({ a: 2 }));
+    expect(structuralHash([1, 2])).not.toBe(structuralHash([2, 1]));
+    expect(structuralHash('a')).not.toBe(structuralHash('b'));
+  });
+
+  it('returns null for values containing asymmetric matchers', () => {
+    expect(structuralHash({ a: any(Number) })).toBeNull();
+    // Objects below the hashed depth are not looked into
+    expect(structuralHash({ a: { b: { c: { d: any(Number) } } } })).not.toBeNull();
+  });
+});
+
+describe('hash-based Set and Map comparison', () => {
+  const items = (count: number) =>
+    Array.from({ length: count }, (_, i) => ({ id: i, name: `item${i}`, tags: [i % 3] }));
+
+  it('compares large Sets of objects regardless of order', () => {
+    const setA = new Set(items(2000));
+    const setB = new Set(items(2000).reverse());
+    expect(deepEqualCheck(setA, setB)).toBe(true);
+
+    const changed = items(2000);
+    changed[1000]!.tags = [99];
+    expect(deepEqualCheck(setA, new Set(changed))).toBe(false);
+  });
+
+  it('compares large Sets of primitives', () => {
+    const values = Array.from({ length: 5000 }, (_, i) => (i % 2 ? i : `s${i}`));
+    expect(deepEqualCheck(new Set(values), new Set([...values].reverse()))).toBe(true);
+    expect(deepEqualCheck(new Set(values), new Set([...values.slice(1), 'other']))).toBe(false);
+  });
+
+  it('keeps duplicates of structurally equal members paired one-to-one', () => {
+    expect(deepEqualCheck(new Set([{ a: 1 }, { a: 1 }, { a: 2 }]), new Set([{ a: 1 }, { a: 2 }, { a: 2 }]))).toBe(false);
+    expect(deepEqualCheck(new Set([{ a: 1 }, { a: 1 }]), new Set([{ a: 1 }, { a: 1 }]))).toBe(true);
+  });
+
+  it('honours nanEqual and strictZero for primitive members', () => {
+    expect(deepEqualCheck(new Set([NaN, 1]), new Set([1, NaN]))).toBe(true);
+    expect(deepEqualCheck(new Set([NaN]), new Set([NaN]), { nanEqual: false })).toBe(false);
+    expect(deepEqualCheck(new Set([0]), new Set([-0]), { strictZero: true })).toBe(true);
+  });
+
+  it('lets matchers inside Sets match members of any bucket', () => {
+    expect(deepEqualCheck<unknown>(new Set([1, { id: 2 }]), new Set([{ id: any(Number) }, any(Number)]))).toBe(true);
+    expect(deepEqualCheck<unknown>(new Set([any(String), { id: 2 }]), new Set([{ id: 2 }, 'x']))).toBe(true);
+  });
+
+  it('revisits pairings when a matcher took the only partner of another member', () => {
+    expect(deepEqualCheck(new Set<unknown>([{ v: any(Number) }, { v: 1 }]), new Set([{ v: 1 }, { v: 2 }]))).toBe(true);
+    expect(deepEqualCheck<unknown[]>([{ v: any(Number) }, { v: 1 }], [{ v: 1 }, { v: 2 }], { arrayOrder: 'ignore' }))
+      .toBe(true);
+    expect(deepEqualCheck<unknown[]>([{ v: any(Number) }, { v: 1 }], [{ v: 1 }, { v: 'x' }], { arrayOrder: 'ignore' }))
+      .toBe(false);
+    expect(deepDiff(new Set<unknown>([{ v: any(Number) }, { v: 1 }]), new Set([{ v: 1 }, { v: 2 }]))).toEqual([]);
+
+    const keys = [{ id: 1 }, { id: 1 }];
+    const a = new Map<unknown, unknown>([[keys[0], any(Number)], [keys[1], 1]]);
+    expect(deepEqualCheck(a, new Map([[{ id: 1 }, 1], [{ id: 1 }, 2]]))).toBe(true);
+    expect(deepDiff(a, new Map([[{ id: 1 }, 1], [{ id: 1 }, 2]]))).toEqual([]);
+    expect(deepEqualCheck(a, new Map([[{ id: 1 }, 2], [{ id: 1 }, 3]]))).toBe(false);
+  });
+
+  it('compares large Maps with primitive and object keys', () => {
+    const primitiveA = new Map(items(2000).map(item => [item.id, item] as const));
+    const primitiveB = new Map(items(2000).reverse().map(item => [item.id, item] as const));
+    expect(deepEqualCheck(primitiveA, primitiveB)).toBe(true);
+
+    const objectA = new Map(items(2000).map(item => [item, item.id] as const));
+    const objectB = new Map(items(2000).reverse().map(item => [item, item.id] as const));
+    expect(deepEqualCheck(objectA, objectB)).toBe(true);
+    objectB.set({ id: -1, name: 'x', tags: [] }, 0);
+    objectA.set({ id: -1, name: 'x', tags: [] }, 1);
+    expect(deepEqualCheck(objectA, objectB)).toBe(false);
+  });
+
+  it('reports the same differences for hashed collections', () => {
+    expect(deepDiff(new Set([{ a: 1 }, { a: 2 }]), new Set([{ a: 2 }, { a: 3 }]))).toEqual([
+      { path: [{ kind: 'set-entry', value: { a: 1 } }], kind: 'removed', a: { a: 1 }, b: undefined },
+      { path: [{ kind: 'set-entry', value: { a: 3 } }], kind: 'added', a: undefined, b: { a: 3 } },
+    ]);
+  });
+});
@@ -0,0 +1,168 @@
+import { definesValueOf, NOT_BOXED, unbox } from './boxed';
+import { isAccessor, ownKeys } from './keys';
+import type { PropertyOptions } from './keys';
+import { isAsymmetricMatcher } from './matchers';
+import { hasNumericTolerance, hasUnorderedArrays } from './options';
+import { isDeepEquatable } from './protocol';
+import { typeTag } from './tags';
+import type { RequiredDeepEqualOptions } from './types';
+
+/**
+ * Cheap structural hashing used to bucket Set members and Map keys before
+ * deep comparison. Values that `deepEqualCore` considers equal always hash
+ * the same; the reverse does not hold. Nested values are only looked at down
+ * to a small depth, everything below counts as "some object".
+ */
+
+/** How many levels of nesting contribute to a structural hash */
+const HASH_DEPTH = 3;
+
+const SEED_NUMBER = 0x6e756d62;
+const SEED_NULL = 0x6e756c6c;
+const SEED_UNDEFINED = 0x756e6466;
+const SEED_SYMBOL = 0x73796d62;
+const SEED_FUNCTION = 0x66756e63;
+const SEED_OBJECT = 0x6f626a65;
+const SEED_ARRAY = 0x61727261;
+const SEED_DATE = 0x64617465;
+const SEED_REGEXP = 0x72656765;
+const SEED_BUFFER = 0x62756666;
+const SEED_ERROR = 0x6572726f;
+const SEED_SET = 0x73657420;
+const SEED_MAP = 0x6d617020;
+
+/** Options deciding which values `structuralHash` may tell apart */
+export type HashOptions = PropertyOptions & Pick<
+  RequiredDeepEqualOptions,
+  'epsilon' | 'relativeTolerance' | 'ulps' | 'pathTolerances' | 'arrayOrder' | 'arrayOrderPaths' | 'compareIterables' | 'useValueOf'
+>;
+
+const DEFAULT_HASH_OPTIONS: HashOptions = {
+  symbolKeys: false,
+  nonEnumerable: false,
+  compareDescriptors: false,
+  epsilon: 0,
+  relativeTolerance: 0,
+  ulps: 0,
+  pathTolerances: [],
+  arrayOrder: 'strict',
+  arrayOrderPaths: [],
+  compareIterables: false,
+  useValueOf: false,
+};
+
+const float64 = new Float64Array(1);
+const uint32 = new Uint32Array(float64.buffer);
+
+export function mix(hash: number, value: number): number {
+  return Math.imul(hash ^ value, 0x01000193) >>> 0;
+}
+
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash = mix(hash, value.charCodeAt(i));
+  }
+  return hash;
+}
+
+export function hashNumber(value: number): number {
+  // NaN and both zeros share a hash so that nanEqual/strictZero need no special casing
+  if (value !== value || value === 0) return 0;
+  float64[0] = value;
+  return mix(uint32[0], uint32[1]);
+}
+
+/**
+ * Hash of the primitive `valueOf()` result of a `useValueOf` class, or undefined when
+ * the result is an object or conversion throws (Temporal values refuse it and are
+ * compared otherwise)
+ */
+function hashValueOf(obj: object, options: HashOptions): number | null | undefined {
+  let converted: unknown;
+  try {
+    converted = obj.valueOf();
+  } catch {
+    return undefined;
+  }
+  return typeof converted === 'object' && converted !== null ? undefined : structuralHash(converted, options, 0);
+}
+
+/**
+ * Structural hash of a value, or null when the value contains an asymmetric
+ * matcher or a `DEEP_EQUALS` implementation (within the hashed depth) and may
+ * therefore equal anything.
+ * `options` must select the same object properties as the comparison does.
+ */
+export function structuralHash(
+  value: unknown,
+  options: HashOptions = DEFAULT_HASH_OPTIONS,
+  depth = HASH_DEPTH
+): number | null {
+  switch (typeof value) {
+    // Numbers within a tolerance of each other can have any bits, so they all share a hash
+    case 'number': return hasNumericTolerance(options) ? SEED_NUMBER : hashNumber(value);
+    case 'string': return hashString(value);
+    case 'boolean': return value ? 1231 : 1237;
+    case 'bigint': return hashString(value.toString());
+    case 'undefined': return SEED_UNDEFINED;
+    case 'symbol': return SEED_SYMBOL;
+    case 'function': return SEED_FUNCTION;
+  }
+  if (value === null) return SEED_NULL;
+  // Values deciding their own equality may equal anything of any shape, like matchers
+  if (isAsymmetricMatcher(value) || isDeepEquatable(value)) return null;
+  if (depth === 0) return SEED_OBJECT;
+
+  const obj = value as any;
+  if (Array.isArray(obj)) {
+    // Arrays that may be unordered combine elements with addition, like object properties
+    const unordered = hasUnorderedArrays(options);
+    let hash = mix(SEED_ARRAY, obj.length);
+    let sum = 0;
+    for (let i = 0; i < obj.length; i++) {
+      const element = structuralHash(obj[i], options, depth - 1);
+      if (element === null) return null;
+      if (unordered) {
+        sum = (sum + mix(SEED_ARRAY, element)) >>> 0;
+      } else {
+        hash = mix(hash, element);
+      }
+    }
+    return unordered ? mix(hash, sum) : hash;
+  }
+  const tag = typeTag(obj);
+  switch (tag) {
+    case '[object RegExp]': return mix(SEED_REGEXP, hashString(obj.source));
+    case '[object Date]': return mix(SEED_DATE, hashNumber(obj.getTime()));
+    case '[object Error]': return mix(SEED_ERROR, hashString(String(obj.message)));
+    case '[object Set]': return mix(SEED_SET, obj.size);
+    case '[object Map]': return mix(SEED_MAP, obj.size);
+    case '[object ArrayBuffer]':
+    case '[object SharedArrayBuffer]':
+      return mix(SEED_BUFFER, obj.byteLength);
+  }
+  if (ArrayBuffer.isView(obj)) return mix(SEED_BUFFER, obj.byteLength);
+  const primitive = unbox(obj, tag);
+  if (primitive !== NOT_BOXED) return structuralHash(primitive, options, 0);
+  if (options.useValueOf && definesValueOf(obj)) {
+    const converted = hashValueOf(obj, options);
+    if (converted !== undefined) return converted;
+  }
+
+  if (options.compareIterables && typeof obj[Symbol.iterator] === 'function') return SEED_OBJECT;
+
+  // Plain objects: combine key/value pairs with addition so key order does not matter
+  const keys = ownKeys(obj, options);
+  let sum = 0;
+  for (let i = 0; i < keys.length; i++) {
+    const key = keys[i];
+    // Accessors compared by identity must not be invoked here either
+    const element = options.compareDescriptors && isAccessor(obj, key)
+      ? SEED_FUNCTION
+      : structuralHash(obj[key], options, depth - 1);
+    if (element === null) return null;
+    sum = (sum + mix(typeof key === 'string' ? hashString(key) : SEED_SYMBOL, element)) >>> 0;
+  }
+  return mix(mix(SEED_OBJECT, keys.length), sum);
+}
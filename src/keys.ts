@@ -0,0 +1,30 @@
+import type { RequiredDeepEqualOptions } from './types';
+
+/** Options deciding which own properties of an object take part in a comparison */
+export type PropertyOptions = Pick<RequiredDeepEqualOptions, 'symbolKeys' | 'nonEnumerable' | 'compareDescriptors'>;
+
+/**
+ * Own property keys compared for an object: enumerable string keys by default,
+ * plus symbol keys and non-enumerable keys when the options ask for them
+ */
+export function ownKeys(obj: object, options: PropertyOptions): Array<string | symbol> {
+  if (options.nonEnumerable) {
+    return options.symbolKeys ? Reflect.ownKeys(obj) : Object.getOwnPropertyNames(obj);
+  }
+  const keys: Array<string | symbol> = Object.keys(obj);
+  if (options.symbolKeys) {
+    const symbols = Object.getOwnPropertySymbols(obj);
+    for (let i = 0; i < symbols.length; i++) {
+      if (Object.prototype.propertyIsEnumerable.call(obj, symbols[i])) keys.push(symbols[i]);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Whether the property is a getter/setter pair rather than a data property
+ */
+export function isAccessor(obj: object, key: string | symbol): boolean {
+  const descriptor = Object.getOwnPropertyDescriptor(obj, key);
+  return descriptor !== undefined && 'get' in descriptor;
+}
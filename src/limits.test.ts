@@ -0,0 +1,123 @@
+import { createDeepEqual, deepDiff, deepEqualCheck, deepEqualDetailed, DeepEqualLimitError } from './index';
+
+const nest = (levels: number, leaf: unknown): unknown => {
+  let value = leaf;
+  for (let i = 0; i < levels; i++) value = { value };
+  return value;
+};
+
+const wide = (length: number) => Array.from({ length }, (_, i) => ({ id: i, tags: ['a', 'b'] }));
+
+describe('deepEqualDetailed', () => {
+  it('tells equal values apart from different ones, with where they differ', () => {
+    expect(deepEqualDetailed({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toMatchObject({
+      equal: true,
+      reason: null,
+      path: [],
+    });
+    expect(deepEqualDetailed({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toMatchObject({
+      equal: false,
+      reason: 'changed',
+      path: ['a', 1, 'b'],
+    });
+    expect(deepEqualDetailed([1, 2], [1, 2, 3])).toMatchObject({ equal: false, reason: 'lengthMismatch', path: [] });
+    expect(deepEqualDetailed(new Set([1, 2]), new Set([1, 3]))).toMatchObject({ equal: false, reason: 'removed' });
+  });
+
+  it('reports the first difference deepDiff finds', () => {
+    const a = { x: 1, y: { z: [1, 2] }, w: 'a' };
+    const b = { x: 1, y: { z: [1, 3] }, w: 'b' };
+    const [first] = deepDiff(a, b);
+    expect(deepEqualDetailed(a, b)).toMatchObject({ equal: false, reason: first!.kind, path: first!.path });
+  });
+
+  it('is unknown rather than false when maxDepth is reached', () => {
+    expect(deepEqualCheck(nest(10, 1), nest(10, 1), { maxDepth: 5 })).toBe(false);
+    expect(deepEqualDetailed(nest(10, 1), nest(10, 1), { maxDepth: 5 })).toMatchObject({
+      equal: 'unknown',
+      reason: 'maxDepth',
+      path: ['value', 'value', 'value', 'value', 'value', 'value'],
+    });
+    // A difference found above the limit still decides
+    expect(deepEqualDetailed({ a: 1, b: nest(10, 1) }, { a: 2, b: nest(10, 1) }, { maxDepth: 5 }))
+      .toMatchObject({ equal: false, reason: 'changed', path: ['a'] });
+  });
+
+  it('reports the work done', () => {
+    const { stats } = deepEqualDetailed({ a: [1, 2] }, { a: [1, 2] });
+    expect(stats.nodes).toBe(4);
+    expect(stats.depth).toBe(2);
+    expect(stats.timeMs).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe('budgets', () => {
+  it('give up after maxNodes pairs of values', () => {
+    expect(deepEqualCheck(wide(100), wide(100), { maxNodes: 100 })).toBe(false);
+    expect(deepEqualCheck(wide(100), wide(100), { maxNodes: 1000 })).toBe(true);
+    const result = deepEqualDetailed(wide(100), wide(100), { maxNodes: 100 });
+    expect(result).toMatchObject({ equal: 'unknown', reason: 'maxNodes' });
+    expect(result.stats.nodes).toBe(101);
+  });
+
+  it('give up after maxTimeMs', () => {
+    const result = deepEqualDetailed(wide(100000), wide(100000), { maxTimeMs: 0 });
+    expect(result).toMatchObject({ equal: 'unknown', reason: 'maxTimeMs' });
+    expect(result.stats.nodes).toBeLessThan(1000);
+  });
+
+  it('give up once the signal is aborted', () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(deepEqualCheck({ a: 1 }, { a: 1 }, { signal: controller.signal })).toBe(false);
+    expect(deepEqualDetailed({ a: 1 }, { a: 1 }, { signal: controller.signal }))
+      .toMatchObject({ equal: 'unknown', reason: 'aborted', path: [] });
+    expect(deepEqualCheck({ a: 1 }, { a: 1 }, { signal: new AbortController().signal })).toBe(true);
+  });
+
+  it('count values compared on the explicit stack and in trial comparisons', () => {
+    expect(deepEqualDetailed(nest(1000, 1), nest(1000, 1), { maxNodes: 500 }))
+      .toMatchObject({ equal: 'unknown', reason: 'maxNodes' });
+    expect(deepEqualDetailed(new Set(wide(50)), new Set(wide(50).reverse()), { maxNodes: 200 }))
+      .toMatchObject({ equal: 'unknown', reason: 'maxNodes' });
+  });
+
+  it('are collected as a difference by deepDiff', () => {
+    const diffs = deepDiff({ a: 1, b: wide(10) }, { a: 2, b: wide(10) }, { maxNodes: 10 });
+    expect(diffs[0]).toMatchObject({ path: ['a'], kind: 'changed' });
+    expect(diffs[diffs.length - 1]!.kind).toBe('limitExceeded');
+  });
+
+  it('start afresh on every call of a comparator', () => {
+    const equal = createDeepEqual({ maxNodes: 50 }, { reuseState: true });
+    expect(equal(wide(100), wide(100))).toBe(false);
+    expect(equal(wide(5), wide(5))).toBe(true);
+    expect(equal(wide(5), wide(5))).toBe(true);
+  });
+});
+
+describe('throwOnLimit', () => {
+  it('throws a DeepEqualLimitError saying which limit was reached, and where', () => {
+    const options = { maxDepth: 3, throwOnLimit: true };
+    let error: unknown;
+    try {
+      deepEqualCheck({ list: [nest(5, 1)] }, { list: [nest(5, 1)] }, options);
+    } catch (thrown) {
+      error = thrown;
+    }
+    expect(error).toBeInstanceOf(DeepEqualLimitError);
+    expect(error).toMatchObject({ name: 'DeepEqualLimitError', reason: 'maxDepth', path: ['list', 0, 'value', 'value'] });
+    expect(() => deepEqualDetailed(wide(100), wide(100), { maxNodes: 10, throwOnLimit: true }))
+      .toThrow(DeepEqualLimitError);
+  });
+
+  it('does not throw when no limit is reached', () => {
+    expect(deepEqualCheck(wide(10), wide(10), { maxNodes: 1000, throwOnLimit: true })).toBe(true);
+    expect(deepEqualCheck(wide(10), wide(9), { throwOnLimit: true })).toBe(false);
+  });
+
+  it('lets other errors through', () => {
+    const customizers = { byPath: [['a', () => { throw new RangeError('customizer'); }]] as const };
+    expect(() => deepEqualCheck({ a: 1 }, { a: 1 }, { customizers, maxNodes: 100 })).toThrow(RangeError);
+  });
+});
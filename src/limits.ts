@@ -0,0 +1,109 @@
+/**
+ * Budgets bounding the work of a comparison (`maxNodes`, `maxTimeMs`, `signal`)
+ * and the bookkeeping that tells a comparison stopped by a limit from one that
+ * found a difference
+ */
+import type {
+  ComparisonLimits,
+  CompareState,
+  DeepEqualLimitReason,
+  PathSegment,
+  RequiredDeepEqualOptions,
+} from './types';
+
+/** Values compared between looks at the clock and the abort signal, less one (a bit mask) */
+const CHECK_MASK = 0xff;
+
+const LIMIT_DESCRIPTIONS: Record<DeepEqualLimitReason, string> = {
+  maxDepth: 'values nested deeper than maxDepth',
+  maxNodes: 'more values to compare than maxNodes',
+  maxTimeMs: 'comparison took longer than maxTimeMs',
+  aborted: 'comparison aborted by its signal',
+};
+
+/**
+ * Thrown when a limit stops a comparison with `throwOnLimit` set
+ */
+export class DeepEqualLimitError extends Error {
+  constructor(
+    /** Limit reached */
+    readonly reason: DeepEqualLimitReason,
+    /** Where the limit was reached, from the root values */
+    readonly path: PathSegment[]
+  ) {
+    super(`Deep equality undecided: ${LIMIT_DESCRIPTIONS[reason]}`);
+    this.name = 'DeepEqualLimitError';
+  }
+}
+
+/**
+ * Milliseconds from a fixed point in time, from `performance.now()` where the
+ * runtime has it as a global (Node 14 does not) and `Date.now()` elsewhere
+ */
+export const now: () => number = typeof performance === 'undefined' ? Date.now : () => performance.now();
+
+export function createLimits(): ComparisonLimits {
+  return {
+    nodes: 0,
+    deepest: 0,
+    deadline: Infinity,
+    reached: null,
+    stopped: null,
+    stopAtDifference: false,
+  };
+}
+
+/**
+ * Resets what a comparison has spent, for a new comparison with the same state
+ */
+export function startLimits(limits: ComparisonLimits, options: RequiredDeepEqualOptions): void {
+  limits.nodes = 0;
+  limits.deepest = 0;
+  limits.deadline = options.maxTimeMs === Infinity ? Infinity : now() + options.maxTimeMs;
+  limits.reached = null;
+  limits.stopped = null;
+}
+
+/**
+ * Counts a pair of values against the budgets, stopping the comparison by throwing
+ * when one runs out
+ */
+export function spend(limits: ComparisonLimits, a: unknown, b: unknown, state: CompareState, depth: number): void {
+  const nodes = ++limits.nodes;
+  if (depth > limits.deepest) limits.deepest = depth;
+  const options = state.options;
+  if (nodes > options.maxNodes) reachLimit(limits, 'maxNodes', a, b, state);
+  if ((nodes & CHECK_MASK) === 1) {
+    if (options.signal !== null && options.signal.aborted) reachLimit(limits, 'aborted', a, b, state);
+    if (limits.deadline !== Infinity && now() > limits.deadline) reachLimit(limits, 'maxTimeMs', a, b, state);
+  }
+}
+
+/**
+ * Records a limit reached at the current path. Budgets stop the comparison, as does
+ * any limit with `throwOnLimit`; values nested too deep only count as different.
+ */
+export function reachLimit(
+  limits: ComparisonLimits,
+  reason: DeepEqualLimitReason,
+  a: unknown,
+  b: unknown,
+  state: CompareState
+): void {
+  const reached = { reason, path: state.path === null ? [] : state.path.slice(), a, b };
+  if (reason === 'maxDepth' && !state.options.throwOnLimit) {
+    limits.reached ??= reached;
+    return;
+  }
+  limits.reached = reached;
+  limits.stopped = new DeepEqualLimitError(reason, reached.path);
+  throw limits.stopped;
+}
+
+/**
+ * Stops the comparison after its first difference was collected
+ */
+export function stopAtDifference(limits: ComparisonLimits): never {
+  limits.stopped = new Error('Stopped at the first difference');
+  throw limits.stopped;
+}
@@ -0,0 +1,57 @@
+import { deepEqualCheck } from './index';
+import * as options from './options';
+
+describe('Map entry pairing', () => {
+  it('does not match two entries of A against the same entry of B', () => {
+    const a = new Map<any, any>([[{ x: 1 }, 1], [{ x: 1 }, 1]]);
+    const b = new Map<any, any>([[{ x: 1 }, 1], [{ x: 2 }, 1]]);
+    expect(deepEqualCheck(a, b)).toBe(false);
+    expect(deepEqualCheck(b, a)).toBe(false);
+  });
+
+  it('pairs deep-equal object keys by their values', () => {
+    const a = new Map<any, any>([[{ x: 1 }, 'first'], [{ x: 1 }, 'second']]);
+    const b = new Map<any, any>([[{ x: 1 }, 'second'], [{ x: 1 }, 'first']]);
+    expect(deepEqualCheck(a, b)).toBe(true);
+    expect(deepEqualCheck(a, new Map<any, any>([[{ x: 1 }, 'first'], [{ x: 1 }, 'first']]))).toBe(false);
+  });
+
+  it('isolates failed trial comparisons from circular reference tracking', () => {
+    // Keys nested deeper than the structural hash looks end up in the same bucket
+    const key = (n: number) => ({ a: { b: { c: { d: n } } } });
+    const a = new Map<any, any>([[key(1), 1], [key(2), 2]]);
+    const b = new Map<any, any>([[key(2), 2], [key(1), 1]]);
+    expect(deepEqualCheck(a, b)).toBe(true);
+  });
+
+  it('isolates failed trial comparisons when every key is tried against every other key', () => {
+    const key = (n: number) => ({ a: { b: { c: { d: n } } } });
+    const a = new Map<any, any>([[key(1), 1], [key(2), 2]]);
+    const b = new Map<any, any>([[key(2), 2], [key(1), 1]]);
+    const noHashing = jest.spyOn(options, 'canUseHashing').mockReturnValue(false);
+    try {
+      expect(deepEqualCheck(a, b)).toBe(true);
+      expect(noHashing).toHaveBeenCalled();
+    } finally {
+      noHashing.mockRestore();
+    }
+  });
+
+  it('keeps circular references through Map values working', () => {
+    const a: any = { map: new Map() };
+    a.map.set('self', a);
+    a.map.set({ k: 1 }, a);
+    const b: any = { map: new Map() };
+    b.map.set('self', b);
+    b.map.set({ k: 1 }, b);
+    expect(deepEqualCheck(a, b)).toBe(true);
+  });
+
+  it('compares primitive keys by direct lookup', () => {
+    const a = new Map<any, any>([['a', { v: 1 }], [1, { v: 2 }], [NaN, 3]]);
+    const b = new Map<any, any>([[NaN, 3], [1, { v: 2 }], ['a', { v: 1 }]]);
+    expect(deepEqualCheck(a, b)).toBe(true);
+    expect(deepEqualCheck(a, b, { nanEqual: false })).toBe(false);
+    expect(deepEqualCheck(a, new Map<any, any>([['a', { v: 1 }], ['1', { v: 2 }], [NaN, 3]]))).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  any,
+  anyOf,
+  anything,
+  closeTo,
+  createMatcher,
+  deepDiff,
+  deepEqualCheck,
+  deepMatches,
+  greaterThan,
+  isAsymmetricMatcher,
+  lessThan,
+  satisfies,
+  stringMatching,
+} from './index';
+
+describe('asymmetric matchers', () => {
+  it('any matches primitives by their wrapper and objects by instanceof', () => {
+    expect(deepEqualCheck<unknown>({ name: 'Ann' }, { name: any(String) })).toBe(true);
+    expect(deepEqualCheck<unknown>({ name: 1 }, { name: any(String) })).toBe(false);
+    expect(deepEqualCheck<unknown>({ n: 1, b: 2n, f: () => 1 }, { n: any(Number), b: any(BigInt), f: any(Function) })).toBe(true);
+    expect(deepEqualCheck<unknown>(new Date(), any(Date))).toBe(true);
+    expect(deepEqualCheck<unknown>(null, any(Object))).toBe(false);
+  });
+
+  it('anything matches everything but null and undefined', () => {
+    expect(deepEqualCheck<unknown>([0, '', false], [anything(), anything(), anything()])).toBe(true);
+    expect(deepEqualCheck<unknown>([null], [anything()])).toBe(false);
+  });
+
+  it('anyOf compares candidates deeply', () => {
+    expect(deepEqualCheck<unknown>({ s: 'b' }, { s: anyOf('a', 'b') })).toBe(true);
+    expect(deepEqualCheck<unknown>({ s: { x: [1] } }, { s: anyOf({ x: [1] }, null) })).toBe(true);
+    expect(deepEqualCheck<unknown>({ s: 'c' }, { s: anyOf('a', 'b') })).toBe(false);
+    expect(deepEqualCheck<unknown>({ s: 'x' }, { s: anyOf(any(Number), stringMatching(/x/)) })).toBe(true);
+  });
+
+  it('stringMatching tests strings against a pattern', () => {
+    const id = stringMatching(/^uuid-/g);
+    expect(deepEqualCheck<unknown>(['uuid-1', 'uuid-2'], [id, id])).toBe(true);
+    expect(deepEqualCheck<unknown>('id-1', stringMatching('^uuid-'))).toBe(false);
+    expect(deepEqualCheck<unknown>(5, stringMatching('5'))).toBe(false);
+  });
+
+  it('closeTo accepts numbers within epsilon', () => {
+    expect(deepEqualCheck<unknown>({ pi: 3.1415 }, { pi: closeTo(3.14, 0.01) })).toBe(true);
+    expect(deepEqualCheck<unknown>({ pi: 3.2 }, { pi: closeTo(3.14, 0.01) })).toBe(false);
+    expect(deepEqualCheck<unknown>(0.1 + 0.2, closeTo(0.3))).toBe(true);
+  });
+
+  it('greaterThan and lessThan compare numbers, bigints and Dates', () => {
+    const start = new Date('2024-01-01');
+    expect(deepEqualCheck<unknown>(new Date('2024-06-01'), greaterThan(start))).toBe(true);
+    expect(deepEqualCheck<unknown>(new Date('2023-06-01'), greaterThan(start))).toBe(false);
+    expect(deepEqualCheck<unknown>('2025', greaterThan(start))).toBe(false);
+    expect(deepEqualCheck<unknown>(3n, lessThan(5))).toBe(true);
+    expect(deepEqualCheck<unknown>(5, lessThan(5))).toBe(false);
+  });
+
+  it('supports custom matchers and works on either side', () => {
+    const even = satisfies(value => typeof value === 'number' && value % 2 === 0, 'even');
+    expect(deepEqualCheck<unknown>([2, 4], [even, even])).toBe(true);
+    expect(deepEqualCheck<unknown>([even], [3])).toBe(false);
+    expect(isAsymmetricMatcher(createMatcher('x', () => true))).toBe(true);
+    expect(isAsymmetricMatcher({})).toBe(false);
+  });
+
+  it('is recognised inside Sets, Maps and partial matches', () => {
+    expect(deepEqualCheck<unknown>(new Set(['a', 1]), new Set([any(Number), any(String)]))).toBe(true);
+    expect(deepEqualCheck<unknown>(new Map([['k', 'uuid-1']]), new Map([['k', stringMatching(/^uuid-/)]]))).toBe(true);
+    expect(deepMatches({ id: 'uuid-1', extra: true }, { id: stringMatching(/^uuid-/) })).toBe(true);
+  });
+
+  it('is reported by deepDiff with its description', () => {
+    const diffs = deepDiff<unknown>({ id: 'x', n: 1 }, { id: stringMatching(/^uuid-/), n: any(Number) });
+    expect(diffs).toHaveLength(1);
+    expect(diffs[0]!.path).toEqual(['id']);
+    expect(diffs[0]!.kind).toBe('matcherMismatch');
+    expect(String(diffs[0]!.b)).toBe('StringMatching /^uuid-/');
+    expect(String(closeTo(1, 0.5))).toBe('CloseTo 1 (±0.5)');
+    expect(String(anyOf('a', 2))).toBe('AnyOf<"a", 2>');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Asymmetric matchers: placeholders inside expected values that decide for
+ * themselves whether the value on the other side is acceptable
+ */
+
+/** Well-known symbol marking an object as an asymmetric matcher */
+export const ASYMMETRIC_MATCHER: unique symbol = Symbol.for('deep-equal-check.asymmetricMatcher');
+
+export interface AsymmetricMatcher {
+  readonly [ASYMMETRIC_MATCHER]: true;
+  /**
+   * @param value - Value found on the other side of the comparison
+   * @param equals - Deep equality with the options of the running comparison
+   */
+  asymmetricMatch(value: unknown, equals: (actual: unknown, expected: unknown) => boolean): boolean;
+  /** Short description used in diff and assertion output */
+  toString(): string;
+}
+
+export function isAsymmetricMatcher(value: unknown): value is AsymmetricMatcher {
+  return typeof value === 'object' && value !== null &&
+    (value as Partial<AsymmetricMatcher>)[ASYMMETRIC_MATCHER] === true;
+}
+
+/**
+ * Creates a matcher from a predicate
+ *
+ * @param description - Text shown in diff and assertion output
+ * @param match - Predicate receiving the value and a deep equality callback
+ */
+export function createMatcher(
+  description: string,
+  match: AsymmetricMatcher['asymmetricMatch']
+): AsymmetricMatcher {
+  return {
+    [ASYMMETRIC_MATCHER]: true,
+    asymmetricMatch: match,
+    toString: () => description,
+  };
+}
+
+type AnyConstructor = abstract new (...args: any[]) => unknown;
+
+/**
+ * Matches any value created by the constructor; primitives match their wrapper
+ * (e.g. `any(String)` matches `'abc'`)
+ */
+export function any(constructor: AnyConstructor | BigIntConstructor | SymbolConstructor): AsymmetricMatcher {
+  return createMatcher(`Any<${constructor.name}>`, value => {
+    switch (constructor as unknown) {
+      case String: return typeof value === 'string' || value instanceof String;
+      case Number: return typeof value === 'number' || value instanceof Number;
+      case Boolean: return typeof value === 'boolean' || value instanceof Boolean;
+      case BigInt: return typeof value === 'bigint' || value instanceof BigInt;
+      case Symbol: return typeof value === 'symbol' || value instanceof Symbol;
+      case Function: return typeof value === 'function';
+      case Object: return typeof value === 'object' && value !== null || typeof value === 'function';
+      default: return value instanceof (constructor as AnyConstructor);
+    }
+  });
+}
+
+/**
+ * Matches anything except null and undefined
+ */
+export function anything(): AsymmetricMatcher {
+  return createMatcher('Anything', value => value !== null && value !== undefined);
+}
+
+/**
+ * Matches a value deeply equal to any of the candidates (which may contain matchers)
+ */
+export function anyOf(...candidates: unknown[]): AsymmetricMatcher {
+  return createMatcher(
+    `AnyOf<${candidates.map(describe).join(', ')}>`,
+    (value, equals) => candidates.some(candidate => equals(value, candidate))
+  );
+}
+
+/**
+ * Matches strings containing a match for the pattern
+ */
+export function stringMatching(pattern: RegExp | string): AsymmetricMatcher {
+  const regex = typeof pattern === 'string' ? new RegExp(pattern) : pattern;
+  return createMatcher(`StringMatching ${regex}`, value => {
+    if (typeof value !== 'string') return false;
+    // Global and sticky patterns keep state between calls
+    regex.lastIndex = 0;
+    return regex.test(value);
+  });
+}
+
+/**
+ * Matches numbers within `epsilon` of the expected value (default: 1e-9)
+ */
+export function closeTo(expected: number, epsilon = 1e-9): AsymmetricMatcher {
+  return createMatcher(`CloseTo ${expected} (±${epsilon})`, value => {
+    if (typeof value !== 'number') return false;
+    if (value === expected) return true;
+    return Math.abs(value - expected) <= epsilon;
+  });
+}
+
+type Ordered = number | bigint | Date;
+
+function compareOrdered(value: unknown, bound: Ordered): number {
+  if (bound instanceof Date) {
+    return value instanceof Date ? value.getTime() - bound.getTime() : NaN;
+  }
+  if (typeof value !== 'number' && typeof value !== 'bigint') return NaN;
+  return value > bound ? 1 : value < bound ? -1 : 0;
+}
+
+/**
+ * Matches numbers, bigints or Dates strictly greater than (after) the bound
+ */
+export function greaterThan(bound: Ordered): AsymmetricMatcher {
+  return createMatcher(`GreaterThan ${describe(bound)}`, value => compareOrdered(value, bound) > 0);
+}
+
+/**
+ * Matches numbers, bigints or Dates strictly less than (before) the bound
+ */
+export function lessThan(bound: Ordered): AsymmetricMatcher {
+  return createMatcher(`LessThan ${describe(bound)}`, value => compareOrdered(value, bound) < 0);
+}
+
+/**
+ * Matches values accepted by the predicate
+ */
+export function satisfies(predicate: (value: unknown) => boolean, name = predicate.name || 'predicate'): AsymmetricMatcher {
+  return createMatcher(`Satisfies<${name}>`, value => predicate(value));
+}
+
+function describe(value: unknown): string {
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'bigint') return `${value}n`;
+  if (value instanceof Date) return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+  return String(value);
+}
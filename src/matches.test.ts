@@ -0,0 +1,65 @@
+import { deepDiff, deepEqualCheck, deepMatches } from './index';
+
+describe('deepMatches', () => {
+  it('allows extra keys on the actual side only', () => {
+    expect(deepMatches({ id: 1, name: 'Ann' }, { name: 'Ann' })).toBe(true);
+    expect(deepMatches({ name: 'Ann' }, { id: 1, name: 'Ann' })).toBe(false);
+    expect(deepMatches({ user: { id: 1, name: 'Ann' } }, { user: { name: 'Bob' } })).toBe(false);
+  });
+
+  it('allows Sets and Maps on the actual side to be supersets', () => {
+    expect(deepMatches(new Set([1, 2, 3]), new Set([3, 1]))).toBe(true);
+    expect(deepMatches(new Set([1]), new Set([1, 2]))).toBe(false);
+    expect(deepMatches(new Map([['a', 1], ['b', 2]]), new Map([['b', 2]]))).toBe(true);
+    expect(deepMatches(new Map([['a', 1]]), new Map([['a', 2]]))).toBe(false);
+  });
+
+  it('matches Set members and Map values partially', () => {
+    expect(deepMatches(new Set([{ id: 1, extra: true }]), new Set([{ id: 1 }]))).toBe(true);
+    expect(deepMatches(new Map([['k', { id: 1, extra: true }]]), new Map([['k', { id: 1 }]]))).toBe(true);
+  });
+
+  it('finds a pairing when partial matches overlap', () => {
+    const actual = new Set([{ a: 1, b: 2 }, { a: 1 }]);
+    const expected = new Set([{ a: 1 }, { a: 1, b: 2 }]);
+    expect(deepMatches(actual, expected)).toBe(true);
+  });
+
+  it('requires arrays of the same length by default', () => {
+    expect(deepMatches([{ id: 1, x: 1 }, { id: 2 }], [{ id: 1 }, { id: 2 }])).toBe(true);
+    expect(deepMatches([1, 2, 3], [1, 2])).toBe(false);
+  });
+
+  it('matches arrays as a prefix', () => {
+    expect(deepMatches([1, 2, 3], [1, 2], { partialArrays: 'prefix' })).toBe(true);
+    expect(deepMatches([1, 2, 3], [2, 3], { partialArrays: 'prefix' })).toBe(false);
+    expect(deepMatches([1], [1, 2], { partialArrays: 'prefix' })).toBe(false);
+  });
+
+  it('matches arrays as an unordered subset', () => {
+    expect(deepMatches([3, { id: 1, x: 1 }, 2], [{ id: 1 }, 2], { partialArrays: 'subset' })).toBe(true);
+    expect(deepMatches([1, 2], [2, 2], { partialArrays: 'subset' })).toBe(false);
+  });
+
+  it('keeps TypedArray, Date and circular handling', () => {
+    expect(deepMatches({ buf: new Uint8Array([1, 2]), at: new Date(0), x: 1 }, { buf: new Uint8Array([1, 2]), at: new Date(0) })).toBe(true);
+    const actual: any = { name: 'a', extra: 1 };
+    actual.self = actual;
+    const expected: any = { name: 'a' };
+    expected.self = expected;
+    expect(deepMatches(actual, expected)).toBe(true);
+  });
+
+  it('is the same as deepEqualCheck with partial: true', () => {
+    expect(deepEqualCheck<object>({ a: 1, b: 2 }, { a: 1 }, { partial: true })).toBe(true);
+  });
+
+  it('reports missing expected values in deepDiff', () => {
+    expect(deepDiff<object>({ a: 1, extra: 2 }, { a: 1, b: 3 }, { partial: true })).toEqual([
+      { path: ['b'], kind: 'added', a: undefined, b: 3 },
+    ]);
+    expect(deepDiff(new Set([1, 2]), new Set([3]), { partial: true })).toEqual([
+      { path: [{ kind: 'set-entry', value: 3 }], kind: 'added', a: undefined, b: 3 },
+    ]);
+  });
+});
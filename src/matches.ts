@@ -0,0 +1,30 @@
+import { compareRoot, createState } from './core';
+import type { DeepEqualOptions } from './types';
+
+/**
+ * Partial deep match: checks that `actual` contains at least the shape of `expected`
+ *
+ * Same as `deepEqualCheck` with `partial: true`: extra object keys on `actual`
+ * are allowed and its Sets and Maps may be supersets of the expected ones.
+ * Arrays must have the same length unless `partialArrays` is `'prefix'` or `'subset'`.
+ *
+ * @param actual - Value under test
+ * @param expected - Expected shape
+ * @param options - Comparison options
+ * @returns true if `actual` matches `expected`
+ *
+ * @example
+ * ```typescript
+ * import { deepMatches } from 'deep-equal-check';
+ *
+ * deepMatches({ id: 1, name: 'Ann', tags: new Set(['a', 'b']) }, { name: 'Ann', tags: new Set(['a']) }); // true
+ * deepMatches([3, 1, 2], [1, 2], { partialArrays: 'subset' }); // true
+ * ```
+ */
+export function deepMatches(
+  actual: unknown,
+  expected: unknown,
+  options: Omit<DeepEqualOptions, 'partial'> = {}
+): boolean {
+  return compareRoot(actual, expected, createState({ ...options, partial: true }, false));
+}
@@ -0,0 +1,153 @@
+import { compilePathPattern } from './paths';
+import type {
+  CompiledCustomizers,
+  Customizer,
+  DeepEqualCustomizers,
+  DeepEqualOptions,
+  NumericTolerance,
+  RequiredDeepEqualOptions,
+} from './types';
+
+function compileCustomizers(customizers: DeepEqualCustomizers | undefined): CompiledCustomizers | null {
+  if (!customizers) return null;
+  const byConstructor = new Map<unknown, Customizer>(customizers.byConstructor ?? []);
+  const byPath: CompiledCustomizers['byPath'] = [];
+  for (const [pattern, customizer] of customizers.byPath ?? []) {
+    byPath.push([compilePathPattern(pattern), customizer]);
+  }
+  return byConstructor.size === 0 && byPath.length === 0 ? null : { byConstructor, byPath };
+}
+
+/**
+ * Compiles `pathTolerances`, filling in what an entry leaves out from the top-level tolerances
+ */
+function compilePathTolerances(
+  options: DeepEqualOptions,
+  defaults: Required<NumericTolerance>
+): RequiredDeepEqualOptions['pathTolerances'] {
+  const compiled: RequiredDeepEqualOptions['pathTolerances'] = [];
+  for (const [pattern, tolerance] of options.pathTolerances ?? []) {
+    compiled.push([compilePathPattern(pattern), {
+      epsilon: tolerance.epsilon ?? defaults.epsilon,
+      relativeTolerance: tolerance.relativeTolerance ?? defaults.relativeTolerance,
+      ulps: tolerance.ulps ?? defaults.ulps,
+    }]);
+  }
+  return compiled;
+}
+
+/** The resolved defaults, shared by every call given no options; null until first needed */
+let defaultOptions: RequiredDeepEqualOptions | null = null;
+
+/**
+ * Fills in defaults and precompiles option values used during traversal.
+ * The result is shared between calls, so it must not be modified.
+ */
+export function resolveOptions(options: DeepEqualOptions): RequiredDeepEqualOptions {
+  if (isEmpty(options)) return defaultOptions ??= resolveGivenOptions(options);
+  return resolveGivenOptions(options);
+}
+
+function isEmpty(options: DeepEqualOptions): boolean {
+  for (const key in options) {
+    if (options[key as keyof DeepEqualOptions] !== undefined) return false;
+  }
+  return true;
+}
+
+function resolveGivenOptions(options: DeepEqualOptions): RequiredDeepEqualOptions {
+  const strict = options.mode === 'strict';
+  const tolerance = {
+    epsilon: options.epsilon ?? 0,
+    relativeTolerance: options.relativeTolerance ?? 0,
+    ulps: options.ulps ?? 0,
+  };
+  return {
+    mode: options.mode ?? 'default',
+    nanEqual: options.nanEqual ?? true,
+    checkPrototypes: options.checkPrototypes ?? strict,
+    strictZero: options.strictZero ?? strict,
+    maxDepth: options.maxDepth ?? Infinity,
+    customizers: compileCustomizers(options.customizers),
+    ignorePaths: (options.ignorePaths ?? []).map(compilePathPattern),
+    onlyPaths: options.onlyPaths ? options.onlyPaths.map(compilePathPattern) : null,
+    partial: options.partial ?? false,
+    partialArrays: options.partialArrays ?? 'exact',
+    arrayOrder: options.arrayOrder ?? 'strict',
+    arrayOrderPaths: Array.from(options.arrayOrderPaths ?? [], ([pattern, order]) => [compilePathPattern(pattern), order]),
+    compareBufferBytes: options.compareBufferBytes ?? false,
+    ...tolerance,
+    pathTolerances: compilePathTolerances(options, tolerance),
+    compareIterables: options.compareIterables ?? false,
+    useValueOf: options.useValueOf ?? false,
+    compareErrorStack: options.compareErrorStack ?? false,
+    undefinedEqualsMissing: options.undefinedEqualsMissing ?? options.mode === 'loose',
+    symbolKeys: options.symbolKeys ?? strict,
+    nonEnumerable: options.nonEnumerable ?? false,
+    compareDescriptors: options.compareDescriptors ?? false,
+    preserveSharedReferences: options.preserveSharedReferences ?? false,
+    maxNodes: options.maxNodes ?? Infinity,
+    maxTimeMs: options.maxTimeMs ?? Infinity,
+    signal: options.signal ?? null,
+    throwOnLimit: options.throwOnLimit ?? false,
+  };
+}
+
+export function hasPathFilter(options: RequiredDeepEqualOptions): boolean {
+  return options.ignorePaths.length !== 0 || options.onlyPaths !== null;
+}
+
+/**
+ * Whether the options bound the comparison or ask to be told when a limit is reached
+ */
+export function hasLimits(options: RequiredDeepEqualOptions): boolean {
+  return options.maxNodes !== Infinity || options.maxTimeMs !== Infinity || options.signal !== null ||
+    options.throwOnLimit;
+}
+
+/**
+ * Whether any resolved option needs the current path during traversal
+ */
+export function needsPath(options: RequiredDeepEqualOptions): boolean {
+  return options.customizers !== null || hasPathFilter(options) || options.pathTolerances.length !== 0 ||
+    options.arrayOrderPaths.length !== 0;
+}
+
+/**
+ * Whether the order of elements may not matter for some array in the comparison
+ */
+export function hasUnorderedArrays(options: Pick<RequiredDeepEqualOptions, 'arrayOrder' | 'arrayOrderPaths'>): boolean {
+  return options.arrayOrder === 'ignore' || options.arrayOrderPaths.length !== 0;
+}
+
+/**
+ * Whether numbers may equal numbers other than themselves, anywhere in the comparison
+ */
+export function hasNumericTolerance(
+  options: Pick<RequiredDeepEqualOptions, 'epsilon' | 'relativeTolerance' | 'ulps' | 'pathTolerances'>
+): boolean {
+  return options.epsilon > 0 || options.relativeTolerance > 0 || options.ulps > 0 ||
+    options.pathTolerances.length !== 0;
+}
+
+/**
+ * Whether the options leave plain objects and arrays to be compared by nothing but
+ * their enumerable string keys and elements in order, under the pair tracking of
+ * default mode, with no path, budget or tolerance to keep track of
+ */
+export function comparesPlainly(options: RequiredDeepEqualOptions): boolean {
+  return options.mode === 'default' && !needsPath(options) && !hasLimits(options) && !hasNumericTolerance(options) &&
+    !options.partial && options.arrayOrder === 'strict' && !options.undefinedEqualsMissing && !options.symbolKeys &&
+    !options.nonEnumerable && !options.compareDescriptors && !options.preserveSharedReferences &&
+    !options.useValueOf && !options.compareIterables;
+}
+
+/**
+ * Whether Set members and Map keys can be bucketed by `structuralHash`:
+ * only when equality depends on nothing but the values themselves, and
+ * not with the `==` leaves of loose mode
+ */
+export function canUseHashing(options: RequiredDeepEqualOptions): boolean {
+  return !options.partial && options.customizers === null && !hasPathFilter(options) &&
+    options.mode !== 'loose' && !options.undefinedEqualsMissing;
+}
@@ -0,0 +1,128 @@
+import { deepDiff, deepEqualCheck } from './index';
+import {
+  compilePathPattern,
+  createPathMatcher,
+  matchPath,
+  matchPathPartial,
+  matchTrackedPath,
+  truncatePathMatcher,
+} from './paths';
+
+describe('path patterns', () => {
+  it('compiles dotted strings and segment arrays', () => {
+    expect(compilePathPattern('items.*.id')).toEqual(['items', '*', 'id']);
+    expect(compilePathPattern(['a.b', 0])).toEqual(['a.b', '0']);
+    expect(compilePathPattern('')).toEqual([]);
+  });
+
+  it('matches wildcards and globstars', () => {
+    expect(matchPath(compilePathPattern('items.*.id'), ['items', 3, 'id'])).toBe(true);
+    expect(matchPath(compilePathPattern('items.*.id'), ['items', 3, 'name'])).toBe(false);
+    expect(matchPath(compilePathPattern('**.updatedAt'), ['updatedAt'])).toBe(true);
+    expect(matchPath(compilePathPattern('**.updatedAt'), ['a', 1, 'updatedAt'])).toBe(true);
+    expect(matchPath(compilePathPattern('**.updatedAt'), ['a', 'updatedAt', 'x'])).toBe(false);
+    expect(matchPath(compilePathPattern('**.updatedAt'), ['a', 'updatedAt', 'x'], true)).toBe(true);
+  });
+
+  it('matches Map keys but not Set entries by name', () => {
+    expect(matchPath(['m', 'k'], ['m', { kind: 'map-key', key: 'k' }])).toBe(true);
+    expect(matchPath(['m', '*'], ['m', { kind: 'set-entry', value: 'k' }])).toBe(true);
+    expect(matchPath(['m', 'k'], ['m', { kind: 'set-entry', value: 'k' }])).toBe(false);
+  });
+
+  it('detects paths leading towards a match', () => {
+    expect(matchPathPartial(compilePathPattern('a.b.c'), ['a', 'b'])).toBe(true);
+    expect(matchPathPartial(compilePathPattern('a.b.c'), ['a', 'x'])).toBe(false);
+    expect(matchPathPartial(compilePathPattern('a.b'), ['a', 'b', 'c'])).toBe(true);
+  });
+
+  it('matches a growing and shrinking path like matchPath', () => {
+    const pattern = compilePathPattern('**.a.*');
+    const matcher = createPathMatcher();
+    const path: string[] = [];
+    for (const segment of ['a', 'b', 'a', 'a', 'x']) {
+      path.push(segment);
+      expect(matchTrackedPath(matcher, pattern, path)).toBe(matchPath(pattern, path));
+    }
+    path.length = 2;
+    truncatePathMatcher(matcher, 2);
+    path.push('b');
+    expect(matchTrackedPath(matcher, pattern, path)).toBe(false);
+    path.length = 1;
+    truncatePathMatcher(matcher, 1);
+    path.push('c');
+    expect(matchTrackedPath(matcher, pattern, path)).toBe(true);
+  });
+});
+
+describe('ignorePaths', () => {
+  const responseA = { id: 1, etag: 'x', items: [{ id: 10, name: 'a' }], meta: { updatedAt: 1 } };
+  const responseB = { id: 2, etag: 'y', items: [{ id: 20, name: 'a' }], meta: { updatedAt: 2 } };
+
+  it('skips ignored object keys, array element fields and globstar matches', () => {
+    expect(deepEqualCheck(responseA, responseB)).toBe(false);
+    expect(deepEqualCheck(responseA, responseB, {
+      ignorePaths: ['id', 'etag', 'items.*.id', '**.updatedAt'],
+    })).toBe(true);
+    expect(deepEqualCheck(responseA, { ...responseB, items: [{ id: 20, name: 'b' }] }, {
+      ignorePaths: ['id', 'etag', 'items.*.id', '**.updatedAt'],
+    })).toBe(false);
+  });
+
+  it('does not count ignored keys present on one side only', () => {
+    expect(deepEqualCheck<object>({ a: 1, createdAt: 5 }, { a: 1 }, { ignorePaths: ['createdAt'] })).toBe(true);
+    expect(deepEqualCheck<object>({ a: 1 }, { a: 1, createdAt: 5 }, { ignorePaths: [['createdAt']] })).toBe(true);
+  });
+
+  it('skips ignored array indices, including ones beyond the other length', () => {
+    expect(deepEqualCheck([1, 2, 3], [1, 2], { ignorePaths: ['2'] })).toBe(true);
+    expect(deepEqualCheck([1, 2, 3], [1, 5], { ignorePaths: ['2'] })).toBe(false);
+  });
+
+  it('skips ignored Map entries', () => {
+    const a = new Map<string, unknown>([['id', 1], ['name', 'x']]);
+    const b = new Map<string, unknown>([['name', 'x']]);
+    expect(deepEqualCheck(a, b, { ignorePaths: ['id'] })).toBe(true);
+    expect(deepEqualCheck(a, b)).toBe(false);
+  });
+
+  it('matches globstars at every level of deep structures', () => {
+    const list = (leaf: number) => {
+      let node: object = { leaf };
+      for (let i = 0; i < 10000; i++) node = { value: i, next: node, leaf: i };
+      return node;
+    };
+    expect(deepEqualCheck(list(1), list(2), { ignorePaths: ['**.leaf'] })).toBe(true);
+    expect(deepEqualCheck(list(1), list(2), { ignorePaths: ['leaf'] })).toBe(false);
+  });
+
+  it('leaves ignored paths out of deepDiff', () => {
+    expect(deepDiff(responseA, responseB, { ignorePaths: ['id', 'items.*.id', '**.updatedAt'] })).toEqual([
+      { path: ['etag'], kind: 'changed', a: 'x', b: 'y' },
+    ]);
+  });
+});
+
+describe('onlyPaths', () => {
+  it('compares only the selected paths', () => {
+    const a = { user: { name: 'Ann', id: 1 }, version: 1 };
+    const b = { user: { name: 'Ann', id: 2 }, version: 2 };
+    expect(deepEqualCheck(a, b, { onlyPaths: ['user.name'] })).toBe(true);
+    expect(deepEqualCheck(a, b, { onlyPaths: ['user'] })).toBe(false);
+    expect(deepEqualCheck(a, { ...b, user: { name: 'Bob', id: 1 } }, { onlyPaths: ['user.name'] })).toBe(false);
+  });
+
+  it('supports wildcards and globstars', () => {
+    const a = { items: [{ id: 1, v: 'a' }, { id: 2, v: 'b' }], deep: { x: { id: 3, v: 1 } } };
+    const b = { items: [{ id: 1, v: 'c' }, { id: 2, v: 'd' }], deep: { x: { id: 3, v: 2 } } };
+    expect(deepEqualCheck(a, b, { onlyPaths: ['items.*.id'] })).toBe(true);
+    expect(deepEqualCheck(a, b, { onlyPaths: ['**.id'] })).toBe(true);
+    expect(deepEqualCheck(a, b, { onlyPaths: ['**.v'] })).toBe(false);
+  });
+
+  it('combines with ignorePaths', () => {
+    const a = { user: { name: 'Ann', id: 1 } };
+    const b = { user: { name: 'Ann', id: 2 } };
+    expect(deepEqualCheck(a, b, { onlyPaths: ['user'], ignorePaths: ['user.id'] })).toBe(true);
+  });
+});
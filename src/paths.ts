@@ -0,0 +1,156 @@
+import type { CompiledPathPattern, PathMatcher, PathPattern, PathSegment } from './types';
+
+/**
+ * Normalizes a path pattern into an array of segments.
+ * Dotted strings are split on `.`; numeric segments become strings.
+ */
+export function compilePathPattern(pattern: PathPattern): CompiledPathPattern {
+  if (typeof pattern === 'string') {
+    return pattern === '' ? [] : pattern.split('.');
+  }
+  return pattern.map(segment => typeof segment === 'number' ? String(segment) : segment);
+}
+
+function segmentMatches(patternSegment: string | symbol, segment: PathSegment): boolean {
+  if (patternSegment === '*') return true;
+  if (typeof segment === 'object') {
+    // Set members have no name to match; Map entries match by their primitive key
+    if (segment.kind === 'set-entry') return false;
+    segment = segment.key as PathSegment;
+    if (typeof segment !== 'string' && typeof segment !== 'number' && typeof segment !== 'symbol') {
+      return false;
+    }
+  }
+  if (typeof segment === 'symbol' || typeof patternSegment === 'symbol') {
+    return segment === patternSegment;
+  }
+  return String(segment) === patternSegment;
+}
+
+/**
+ * Positions a pattern can have reached after some path, as indices into the
+ * pattern in ascending order. `pattern.length` means the path matched the whole
+ * pattern; `pattern.length + 1` that one of its ancestors did.
+ */
+type Positions = readonly number[];
+
+/**
+ * Adds the positions reachable from those given by letting globstars match nothing
+ */
+function skipGlobstars(pattern: CompiledPathPattern, positions: number[]): number[] {
+  for (let i = 0; i < positions.length; i++) {
+    const position = positions[i];
+    if (pattern[position] === '**' && !positions.includes(position + 1)) positions.push(position + 1);
+  }
+  return positions.sort((x, y) => x - y);
+}
+
+function startPositions(pattern: CompiledPathPattern): Positions {
+  return skipGlobstars(pattern, [0]);
+}
+
+/**
+ * Positions reachable after one more segment. A globstar consumes any number of
+ * segments: trying every number of them becomes keeping its position alive.
+ */
+function advance(pattern: CompiledPathPattern, positions: Positions, segment: PathSegment): Positions {
+  const length = pattern.length;
+  const next: number[] = [];
+  for (const position of positions) {
+    if (position >= length) {
+      // Whatever lies under a match stays under it
+      if (!next.includes(length + 1)) next.push(length + 1);
+    } else if (pattern[position] === '**') {
+      if (!next.includes(position)) next.push(position);
+    } else if (segmentMatches(pattern[position], segment) && !next.includes(position + 1)) {
+      next.push(position + 1);
+    }
+  }
+  return skipGlobstars(pattern, next);
+}
+
+function isMatch(pattern: CompiledPathPattern, positions: Positions, allowDescendants: boolean): boolean {
+  const last = positions.length === 0 ? -1 : positions[positions.length - 1];
+  return last === pattern.length || allowDescendants && last > pattern.length;
+}
+
+function positionsAfter(pattern: CompiledPathPattern, path: readonly PathSegment[]): Positions {
+  let positions = startPositions(pattern);
+  for (let i = 0; i < path.length && positions.length !== 0; i++) {
+    positions = advance(pattern, positions, path[i]);
+  }
+  return positions;
+}
+
+/**
+ * Checks whether a path matches a compiled pattern in full, or with
+ * `allowDescendants` whether the path is (or lies under) a match
+ */
+export function matchPath(
+  pattern: CompiledPathPattern,
+  path: readonly PathSegment[],
+  allowDescendants = false
+): boolean {
+  return isMatch(pattern, positionsAfter(pattern, path), allowDescendants);
+}
+
+/**
+ * Checks whether a path lies on the way to, or inside, a match of the pattern:
+ * either the path can still be extended into a match or it extends a match.
+ * Globstars make this permissive, so pair it with `matchPath` for leaf values.
+ */
+export function matchPathPartial(pattern: CompiledPathPattern, path: readonly PathSegment[]): boolean {
+  return positionsAfter(pattern, path).length !== 0;
+}
+
+/**
+ * Matcher for a path that starts out empty
+ */
+export function createPathMatcher(): PathMatcher {
+  return { positions: new Map() };
+}
+
+/**
+ * Forgets the positions past the first `length` segments, for a path shortened to
+ * that length. Every removal of a segment from the matched path must be followed by this.
+ */
+export function truncatePathMatcher(matcher: PathMatcher, length: number): void {
+  for (const positions of matcher.positions.values()) {
+    if (positions.length > length + 1) positions.length = length + 1;
+  }
+}
+
+function trackedPositions(matcher: PathMatcher, pattern: CompiledPathPattern, path: readonly PathSegment[]): Positions {
+  let positions = matcher.positions.get(pattern);
+  if (positions === undefined) {
+    positions = [startPositions(pattern)];
+    matcher.positions.set(pattern, positions);
+  }
+  while (positions.length <= path.length) {
+    positions.push(advance(pattern, positions[positions.length - 1], path[positions.length - 1]));
+  }
+  return positions[path.length];
+}
+
+/**
+ * `matchPath` for the path tracked by `matcher`
+ */
+export function matchTrackedPath(
+  matcher: PathMatcher,
+  pattern: CompiledPathPattern,
+  path: readonly PathSegment[],
+  allowDescendants = false
+): boolean {
+  return isMatch(pattern, trackedPositions(matcher, pattern, path), allowDescendants);
+}
+
+/**
+ * `matchPathPartial` for the path tracked by `matcher`
+ */
+export function matchTrackedPathPartial(
+  matcher: PathMatcher,
+  pattern: CompiledPathPattern,
+  path: readonly PathSegment[]
+): boolean {
+  return trackedPositions(matcher, pattern, path).length !== 0;
+}
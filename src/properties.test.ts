@@ -0,0 +1,106 @@
+import { deepDiff, deepEqualCheck } from './index';
+
+const meta = Symbol('meta');
+
+function withHidden(value: unknown): object {
+  return Object.defineProperty({ a: 1 }, 'hidden', { value, enumerable: false });
+}
+
+describe('symbolKeys', () => {
+  it('ignores symbol-keyed properties by default', () => {
+    expect(deepEqualCheck({ a: 1, [meta]: 1 }, { a: 1, [meta]: 2 })).toBe(true);
+  });
+
+  it('compares enumerable symbol-keyed properties when enabled', () => {
+    expect(deepEqualCheck({ a: 1, [meta]: 1 }, { a: 1, [meta]: 2 }, { symbolKeys: true })).toBe(false);
+    expect(deepEqualCheck({ a: 1, [meta]: { x: 1 } }, { a: 1, [meta]: { x: 1 } }, { symbolKeys: true })).toBe(true);
+    expect(deepEqualCheck<object>({ a: 1, [meta]: 1 }, { a: 1 }, { symbolKeys: true })).toBe(false);
+  });
+
+  it('reports symbol-keyed differences in deepDiff', () => {
+    expect(deepDiff({ [meta]: 1 }, { [meta]: 2 }, { symbolKeys: true })).toEqual([
+      { path: [meta], kind: 'changed', a: 1, b: 2 },
+    ]);
+  });
+
+  it('finds Set members differing only in symbol-keyed properties', () => {
+    const a = new Set([{ id: 1, [meta]: 'x' }, { id: 1, [meta]: 'y' }]);
+    const b = new Set([{ id: 1, [meta]: 'y' }, { id: 1, [meta]: 'x' }]);
+    expect(deepEqualCheck(a, b, { symbolKeys: true })).toBe(true);
+    expect(deepEqualCheck(a, new Set([{ id: 1, [meta]: 'x' }, { id: 1, [meta]: 'x' }]), { symbolKeys: true })).toBe(false);
+  });
+});
+
+describe('nonEnumerable', () => {
+  it('ignores non-enumerable properties by default', () => {
+    expect(deepEqualCheck(withHidden(1), withHidden(2))).toBe(true);
+  });
+
+  it('compares non-enumerable properties when enabled', () => {
+    expect(deepEqualCheck(withHidden(1), withHidden(2), { nonEnumerable: true })).toBe(false);
+    expect(deepEqualCheck(withHidden([1]), withHidden([1]), { nonEnumerable: true })).toBe(true);
+    expect(deepEqualCheck(withHidden(1), { a: 1 }, { nonEnumerable: true })).toBe(false);
+  });
+
+  it('does not let a non-enumerable key stand in for a missing one', () => {
+    const b: object = Object.defineProperty({ x: 1, z: 1 }, 'y', { value: 1, enumerable: false });
+    expect(deepEqualCheck<object>({ x: 1, y: 1 }, b)).toBe(false);
+    expect(deepEqualCheck<object>(b, { x: 1, y: 1 })).toBe(false);
+    expect(deepDiff<object>({ x: 1, y: 1 }, b)).toEqual([
+      { path: ['y'], kind: 'removed', a: 1, b: undefined },
+      { path: ['z'], kind: 'added', a: undefined, b: 1 },
+    ]);
+    expect(deepEqualCheck<object>(b, { x: 1 }, { partial: true })).toBe(true);
+    expect(deepEqualCheck<object>(b, { y: 1 }, { partial: true })).toBe(false);
+  });
+
+  it('treats non-enumerable keys as missing with undefinedEqualsMissing', () => {
+    expect(deepEqualCheck(withHidden(1), { a: 1, hidden: 1 }, { undefinedEqualsMissing: true })).toBe(false);
+    expect(deepEqualCheck({ a: 1, hidden: 1 }, withHidden(1), { undefinedEqualsMissing: true })).toBe(false);
+    expect(deepEqualCheck(withHidden(1), { a: 1, hidden: undefined }, { undefinedEqualsMissing: true })).toBe(true);
+  });
+
+  it('does not compare enumerability without compareDescriptors', () => {
+    const enumerable = { a: 1, hidden: 1 };
+    expect(deepEqualCheck(withHidden(1), enumerable, { nonEnumerable: true })).toBe(true);
+    expect(deepEqualCheck(new Set([withHidden(1)]), new Set([enumerable]), { nonEnumerable: true })).toBe(true);
+  });
+
+  it('includes non-enumerable symbol keys together with symbolKeys', () => {
+    const hiddenSymbol = (value: number) => Object.defineProperty({}, meta, { value, enumerable: false });
+    expect(deepEqualCheck(hiddenSymbol(1), hiddenSymbol(2), { symbolKeys: true })).toBe(true);
+    expect(deepEqualCheck(hiddenSymbol(1), hiddenSymbol(2), { symbolKeys: true, nonEnumerable: true })).toBe(false);
+  });
+});
+
+describe('compareDescriptors', () => {
+  it('compares property attributes', () => {
+    const frozen = Object.freeze({ a: 1 });
+    expect(deepEqualCheck(frozen, { a: 1 })).toBe(true);
+    expect(deepEqualCheck(frozen, { a: 1 }, { compareDescriptors: true })).toBe(false);
+    expect(deepEqualCheck(frozen, Object.freeze({ a: 1 }), { compareDescriptors: true })).toBe(true);
+    expect(deepEqualCheck(withHidden(1), { a: 1, hidden: 1 }, { nonEnumerable: true, compareDescriptors: true })).toBe(false);
+  });
+
+  it('compares accessors by identity without invoking them', () => {
+    const getter = jest.fn(() => Math.random());
+    const withGetter = () => Object.defineProperty({}, 'value', { get: getter, enumerable: true });
+    expect(deepEqualCheck(withGetter(), withGetter(), { compareDescriptors: true })).toBe(true);
+    expect(getter).not.toHaveBeenCalled();
+
+    const other = Object.defineProperty({}, 'value', { get: () => 1, enumerable: true });
+    expect(deepEqualCheck(withGetter(), other, { compareDescriptors: true })).toBe(false);
+    expect(deepEqualCheck(other, { value: 1 })).toBe(true);
+    expect(deepEqualCheck(other, { value: 1 }, { compareDescriptors: true })).toBe(false);
+  });
+
+  it('reports attribute differences as descriptorMismatch', () => {
+    const diffs = deepDiff(Object.freeze({ a: 1 }), { a: 1 }, { compareDescriptors: true });
+    expect(diffs).toEqual([{
+      path: ['a'],
+      kind: 'descriptorMismatch',
+      a: { value: 1, writable: false, enumerable: true, configurable: false },
+      b: { value: 1, writable: true, enumerable: true, configurable: true },
+    }]);
+  });
+});
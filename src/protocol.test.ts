@@ -0,0 +1,129 @@
+import { DEEP_EQUALS, deepDiff, deepEqualCheck } from './index';
+import type { DeepEquatable } from './index';
+
+/** Immutable list whose spare capacity is an implementation detail */
+class List<T> implements DeepEquatable {
+  private readonly items: T[];
+  private readonly capacity: number;
+
+  constructor(items: T[], capacity = items.length) {
+    this.items = items;
+    this.capacity = capacity;
+  }
+
+  *[Symbol.iterator](): Iterator<T> {
+    yield* this.items;
+  }
+
+  [DEEP_EQUALS](other: unknown, equals: (a: unknown, b: unknown) => boolean): boolean | undefined {
+    return other instanceof List && equals(this.items, other.items);
+  }
+}
+
+class Money {
+  constructor(readonly cents: number, readonly currency: string, readonly cache?: string) {}
+
+  [DEEP_EQUALS](other: unknown): boolean | undefined {
+    if (!(other instanceof Money)) return undefined;
+    return this.cents === other.cents && this.currency === other.currency;
+  }
+}
+
+describe('DEEP_EQUALS protocol', () => {
+  it('is a global symbol', () => {
+    expect(DEEP_EQUALS).toBe(Symbol.for('deep-equal-check.equals'));
+  });
+
+  it('lets instances decide instead of comparing their fields', () => {
+    expect(deepEqualCheck(new List([1, 2], 8), new List([1, 2], 2))).toBe(true);
+    expect(deepEqualCheck(new List([1, 2]), new List([1, 3]))).toBe(false);
+    expect(deepEqualCheck(new Money(100, 'EUR', 'x'), new Money(100, 'EUR'))).toBe(true);
+    expect(deepEqualCheck({ price: new Money(100, 'EUR') }, { price: new Money(100, 'USD') })).toBe(false);
+  });
+
+  it('compares nested values with the running options', () => {
+    expect(deepEqualCheck(new List([0]), new List([-0]))).toBe(true);
+    expect(deepEqualCheck(new List([0]), new List([-0]), { strictZero: true })).toBe(false);
+    expect(deepEqualCheck(new List([new List([1])]), new List([new List([1], 4)]), { mode: 'strict' })).toBe(true);
+  });
+
+  it('uses the method of either side', () => {
+    // Structurally equal, but the list only equals other lists
+    expect(deepEqualCheck<unknown>({ items: [1], capacity: 1 }, new List([1]))).toBe(false);
+    expect(deepEqualCheck<unknown>(new List([1]), { items: [1], capacity: 1 })).toBe(false);
+  });
+
+  it('falls back to the structural comparison when the method returns undefined', () => {
+    expect(deepEqualCheck<unknown>(new Money(100, 'EUR'), { cents: 100, currency: 'EUR', cache: undefined })).toBe(true);
+    expect(deepEqualCheck<unknown>(new Money(100, 'EUR'), { cents: 1, currency: 'EUR' })).toBe(false);
+  });
+
+  it('lets constructor customizers take precedence', () => {
+    const options = { customizers: { byConstructor: [[Money, () => true] as const] } };
+    expect(deepEqualCheck(new Money(1, 'EUR'), new Money(2, 'USD'), options)).toBe(true);
+  });
+
+  it('finds equal instances in Sets', () => {
+    const a = new Set([new Money(1, 'EUR', 'a'), new Money(2, 'EUR', 'b')]);
+    const b = new Set([new Money(2, 'EUR'), new Money(1, 'EUR')]);
+    expect(deepEqualCheck(a, b)).toBe(true);
+  });
+
+  it('finds plain objects equal to instances in Sets and Map keys', () => {
+    const plain = { cents: 100, currency: 'EUR', cache: undefined };
+    expect(deepEqualCheck<unknown>(new Set([new Money(100, 'EUR')]), new Set([plain]))).toBe(true);
+    expect(deepEqualCheck<unknown>(new Set([plain]), new Set([new Money(100, 'EUR')]))).toBe(true);
+    expect(deepEqualCheck<unknown>(new Set([[new Money(100, 'EUR')]]), new Set([[plain]]))).toBe(true);
+    expect(deepEqualCheck<unknown>(new Map([[new Money(100, 'EUR'), 1]]), new Map([[plain, 1]]))).toBe(true);
+    expect(deepEqualCheck<unknown>(new Set([new Money(100, 'EUR')]), new Set([{ ...plain, cents: 1 }]))).toBe(false);
+  });
+
+  it('reports a rejected pair as one change', () => {
+    const a = new Money(1, 'EUR');
+    const b = new Money(2, 'EUR');
+    expect(deepDiff({ price: a }, { price: b })).toEqual([{ path: ['price'], kind: 'changed', a, b }]);
+  });
+});
+
+describe('compareIterables', () => {
+  class Range {
+    constructor(readonly start: number, readonly end: number, readonly label = '') {}
+
+    *[Symbol.iterator](): Iterator<number> {
+      for (let i = this.start; i < this.end; i++) yield i;
+    }
+  }
+
+  it('compares iterables by their own properties by default', () => {
+    expect(deepEqualCheck(new Range(0, 2, 'a'), new Range(0, 2, 'b'))).toBe(false);
+  });
+
+  it('compares iterables by the values they produce', () => {
+    const options = { compareIterables: true };
+    expect(deepEqualCheck(new Range(0, 2, 'a'), new Range(0, 2, 'b'), options)).toBe(true);
+    expect(deepEqualCheck(new Range(0, 2), new Range(0, 3), options)).toBe(false);
+    expect(deepEqualCheck(new Range(0, 2), new Range(0, 2), { ...options, mode: 'strict' })).toBe(true);
+    expect(deepEqualCheck<object>(new Range(0, 2), { start: 0, end: 2, label: '' }, options)).toBe(false);
+  });
+
+  it('compares generators by their remaining values', () => {
+    function* count(n: number) {
+      for (let i = 0; i < n; i++) yield { i };
+    }
+    expect(deepEqualCheck(count(3), count(3), { compareIterables: true })).toBe(true);
+    expect(deepEqualCheck(count(3), count(2), { compareIterables: true })).toBe(false);
+  });
+
+  it('finds equal iterables in Sets', () => {
+    const a = new Set([new Range(0, 1, 'x'), new Range(0, 2, 'y')]);
+    const b = new Set([new Range(0, 2), new Range(0, 1)]);
+    expect(deepEqualCheck(a, b, { compareIterables: true })).toBe(true);
+  });
+
+  it('reports differing values by position', () => {
+    expect(deepDiff(new Range(0, 2), new Range(1, 3), { compareIterables: true })).toEqual([
+      { path: [0], kind: 'changed', a: 0, b: 1 },
+      { path: [1], kind: 'changed', a: 1, b: 2 },
+    ]);
+  });
+});
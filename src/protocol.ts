@@ -0,0 +1,22 @@
+/**
+ * Equality protocol: classes that know how their instances compare (immutable
+ * collections, value objects) implement a method under a well-known symbol
+ * and are no longer compared field by field
+ */
+
+/** Well-known symbol of the method deciding whether an instance equals another value */
+export const DEEP_EQUALS: unique symbol = Symbol.for('deep-equal-check.equals');
+
+export interface DeepEquatable {
+  /**
+   * @param other - Value on the other side of the comparison
+   * @param equals - Deep equality with the options of the running comparison, for nested values
+   * @returns true or false to decide, or undefined to fall back to the structural comparison
+   */
+  [DEEP_EQUALS](other: unknown, equals: (a: unknown, b: unknown) => boolean): boolean | undefined;
+}
+
+export function isDeepEquatable(value: unknown): value is DeepEquatable {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as Partial<DeepEquatable>)[DEEP_EQUALS] === 'function';
+}
@@ -0,0 +1,104 @@
+import { isDeepStrictEqual } from 'util';
+import { runInNewContext } from 'vm';
+import { assertDeepEqual, compileEqual, deepDiff, deepEqualCheck, deepHash } from './index';
+
+/** Evaluates an expression in a fresh realm with its own built-ins */
+function foreign<T>(expression: string): T {
+  return runInNewContext(`(${expression})`) as T;
+}
+
+describe('values from other realms', () => {
+  it('compares Dates and RegExps', () => {
+    expect(deepEqualCheck(foreign('new Date(5)'), new Date(5))).toBe(true);
+    expect(deepEqualCheck(foreign('new Date(5)'), new Date(6))).toBe(false);
+    expect(deepEqualCheck(foreign('/a+/gi'), /a+/gi)).toBe(true);
+    expect(deepEqualCheck(foreign('/a+/g'), /a+/i)).toBe(false);
+  });
+
+  it('compares Maps and Sets by their entries', () => {
+    expect(deepEqualCheck(foreign('new Map([["a", { x: 1 }]])'), new Map([['a', { x: 1 }]]))).toBe(true);
+    expect(deepEqualCheck(foreign('new Map([["a", 1]])'), new Map([['a', 2]]))).toBe(false);
+    expect(deepEqualCheck(foreign('new Set([1, { y: 2 }])'), new Set([{ y: 2 }, 1]))).toBe(true);
+    expect(deepEqualCheck(foreign('new Set([1])'), new Set([2]))).toBe(false);
+  });
+
+  it('compares Arrays and plain objects', () => {
+    expect(deepEqualCheck(foreign('[1, [2, { a: 3 }]]'), [1, [2, { a: 3 }]])).toBe(true);
+    expect(deepEqualCheck(foreign('{ a: [1], b: { c: "d" } }'), { a: [1], b: { c: 'd' } })).toBe(true);
+    expect(deepEqualCheck(foreign('{ a: [1] }'), { a: [2] })).toBe(false);
+  });
+
+  it('compares TypedArrays and ArrayBuffers', () => {
+    expect(deepEqualCheck(foreign('new Uint8Array([1, 2, 3])'), new Uint8Array([1, 2, 3]))).toBe(true);
+    expect(deepEqualCheck(foreign('new Uint8Array([1, 2, 3])'), new Uint8Array([1, 2, 4]))).toBe(false);
+    expect(deepEqualCheck(foreign('new Float64Array([NaN, 0.5])'), new Float64Array([NaN, 0.5]))).toBe(true);
+    expect(deepEqualCheck(foreign('new Uint8Array([1]).buffer'), new Uint8Array([1]).buffer)).toBe(true);
+    expect(deepEqualCheck<unknown>(foreign('new Int8Array([1])'), new Uint8Array([1]))).toBe(false);
+  });
+
+  it('compares Errors and boxed primitives', () => {
+    expect(deepEqualCheck(foreign('new TypeError("x")'), new TypeError('x'))).toBe(true);
+    expect(deepEqualCheck(foreign('new TypeError("x")'), new TypeError('y'))).toBe(false);
+    expect(deepEqualCheck(foreign('new Number(1)'), new Number(1))).toBe(true);
+    expect(deepEqualCheck(foreign('new String("a")'), new String('b'))).toBe(false);
+  });
+
+  it('keeps foreign types apart from plain objects', () => {
+    expect(deepEqualCheck<object>(foreign('new Map()'), {})).toBe(false);
+    expect(deepEqualCheck<object>({}, foreign('new Set()'))).toBe(false);
+    expect(deepEqualCheck<object>(foreign('new Date(0)'), {})).toBe(false);
+  });
+
+  it('finds foreign members in Sets and Map keys', () => {
+    expect(deepEqualCheck(new Set([foreign('new Date(1)'), foreign('new Map([[1, 2]])')]), new Set([new Map([[1, 2]]), new Date(1)]))).toBe(true);
+    expect(deepEqualCheck(new Map([[foreign('[1, 2]'), 'v']]), new Map([[[1, 2], 'v']]))).toBe(true);
+  });
+
+  it('matches strict mode, where prototypes from different realms differ', () => {
+    expect(deepEqualCheck(foreign('new Map([[1, 2]])'), new Map([[1, 2]]), { mode: 'strict', checkPrototypes: false })).toBe(true);
+    expect(deepEqualCheck(foreign('new Map([[1, 2]])'), new Map([[1, 2]]), { mode: 'strict' })).toBe(false);
+  });
+
+  it('reports differences inside foreign collections', () => {
+    expect(deepDiff(foreign('new Map([["a", 1]])'), new Map([['a', 2]]))).toEqual([
+      { path: [{ kind: 'map-key', key: 'a' }], kind: 'changed', a: 1, b: 2 },
+    ]);
+  });
+});
+
+describe('values claiming a type they are not', () => {
+  class Claims {
+    constructor(private readonly tag: string, public v = 1) {}
+
+    get [Symbol.toStringTag]() {
+      return this.tag;
+    }
+  }
+
+  it('compares them as plain objects', () => {
+    for (const tag of ['Map', 'Set', 'Date', 'RegExp', 'ArrayBuffer', 'WeakMap', 'URL', 'Headers']) {
+      expect(deepEqualCheck(new Claims(tag), new Claims(tag))).toBe(true);
+      expect(deepEqualCheck(new Claims(tag), new Claims(tag, 2))).toBe(false);
+      expect(deepDiff(new Claims(tag), new Claims(tag))).toEqual([]);
+      expect(deepHash(new Claims(tag))).toBe(deepHash(new Claims(tag)));
+      expect(compileEqual({ x: new Claims(tag) })({ x: new Claims(tag) }, { x: new Claims(tag) })).toBe(true);
+      expect(() => assertDeepEqual(new Claims(tag), new Claims(tag))).not.toThrow();
+    }
+    expect(deepEqualCheck(Object.create(Map.prototype), Object.create(Map.prototype))).toBe(true);
+    expect(deepEqualCheck<object>(new Map(), Object.create(Map.prototype))).toBe(false);
+  });
+
+  it('matches util.isDeepStrictEqual in strict mode', () => {
+    const pairs: Array<[object, object]> = [
+      [new Claims('Map'), new Claims('Map')],
+      [new Claims('Date'), new Claims('Date', 2)],
+      [Object.assign(new Claims('Map'), { size: 0 }), new Claims('Map')],
+      [new Claims('Map'), new Map()],
+      [new Claims('Set'), new Set()],
+    ];
+    for (const [a, b] of pairs) {
+      expect(deepEqualCheck(a, b, { mode: 'strict' })).toBe(isDeepStrictEqual(a, b));
+      expect(deepEqualCheck(b, a, { mode: 'strict' })).toBe(isDeepStrictEqual(b, a));
+    }
+  });
+});
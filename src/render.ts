@@ -0,0 +1,348 @@
+/**
+ * Rendering of values for assertion messages, one property, element or entry
+ * per line, so that a line diff of two renderings shows where they differ.
+ * Large values are cut down around the path to their first difference.
+ */
+import { binaryBytes } from './core';
+import { isAsymmetricMatcher } from './matchers';
+import { NOT_BOXED, unbox } from './boxed';
+import { isAccessor, ownKeys } from './keys';
+import type { PropertyOptions } from './keys';
+import { typeTag } from './tags';
+import type { PathSegment } from './types';
+
+/** Entries shown on each side of the one leading to the first difference */
+const CONTEXT_ENTRIES = 5;
+
+/** Entries shown of containers away from the first difference */
+const MAX_ENTRIES = 10;
+
+/** Levels of containers shown below those leading to the first difference */
+const MAX_LEVELS = 3;
+
+/** Lines after which containers away from the first difference are shown collapsed */
+const MAX_LINES = 1000;
+
+/** Characters of a string shown before the rest is left out */
+const MAX_STRING_LENGTH = 1000;
+
+/** Bytes of binary data shown before the rest are left out */
+const MAX_BYTES = 50;
+
+/** Segments shown at the start and at the end of long paths */
+const PATH_HEAD = 4;
+const PATH_TAIL = 8;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/** Stands for the holes of sparse arrays */
+const HOLE: unique symbol = Symbol('hole');
+
+interface RenderState {
+  lines: string[];
+  options: PropertyOptions;
+  /** Containers being rendered: the line each opens on and where its text starts there */
+  ancestors: Map<object, { line: number; column: number; ref: number }>;
+  refs: number;
+}
+
+/** Nested value of a container, with the text introducing it */
+interface Entry {
+  key: unknown;
+  label: string;
+  value: unknown;
+}
+
+interface Container {
+  open: string;
+  close: string;
+  entries: Entry[];
+  /** Whether path segments name entries by key (objects, arrays, Maps) rather than by value (Sets) */
+  byValue: boolean;
+}
+
+/**
+ * Renders a value as lines, in full along `focus` (a path into the value) and
+ * cut down elsewhere
+ */
+export function renderLines(value: unknown, focus: readonly PathSegment[], options: PropertyOptions): string[] {
+  const state: RenderState = { lines: [], options, ancestors: new Map(), refs: 0 };
+  renderValue(value, '', '', '', focus, 0, state);
+  return state.lines;
+}
+
+function renderValue(
+  value: unknown,
+  indent: string,
+  label: string,
+  suffix: string,
+  /** Path to the first difference from this value; null off that path */
+  focus: readonly PathSegment[] | null,
+  /** Levels below the path to the first difference */
+  level: number,
+  state: RenderState
+): void {
+  const lines = state.lines;
+  if (typeof value !== 'object' && typeof value !== 'function' || value === null) {
+    lines.push(indent + label + renderInline(value) + suffix);
+    return;
+  }
+
+  const ancestor = state.ancestors.get(value);
+  if (ancestor !== undefined) {
+    if (ancestor.ref === 0) {
+      ancestor.ref = ++state.refs;
+      const line = lines[ancestor.line];
+      lines[ancestor.line] = `${line.slice(0, ancestor.column)}<ref *${ancestor.ref}> ${line.slice(ancestor.column)}`;
+    }
+    lines.push(`${indent}${label}[Circular *${ancestor.ref}]${suffix}`);
+    return;
+  }
+
+  const container = containerOf(value, state.options);
+  if (container === null) {
+    lines.push(indent + label + renderInline(value) + suffix);
+    return;
+  }
+  const { open, close, entries } = container;
+  if (entries.length === 0) {
+    lines.push(`${indent}${label}${open}${close}${suffix}`);
+    return;
+  }
+  if (focus === null && (level >= MAX_LEVELS || lines.length >= MAX_LINES)) {
+    lines.push(`${indent}${label}${open}...${close}${suffix}`);
+    return;
+  }
+
+  const focused = focus === null || focus.length === 0 ? -1 : focusedEntry(container, focus[0]);
+  let first = 0;
+  let last = Math.min(entries.length, MAX_ENTRIES) - 1;
+  if (focused !== -1) {
+    first = Math.max(0, focused - CONTEXT_ENTRIES);
+    last = Math.min(entries.length - 1, focused + CONTEXT_ENTRIES);
+  }
+
+  state.ancestors.set(value, { line: lines.length, column: indent.length + label.length, ref: 0 });
+  lines.push(indent + label + open);
+  const inner = `${indent}  `;
+  if (first > 0) lines.push(`${inner}... ${more(first, 'entry', 'entries')}`);
+  for (let i = first; i <= last; i++) {
+    const entry = entries[i];
+    const onPath = i === focused;
+    renderValue(entry.value, inner, entry.label, ',', onPath ? focus!.slice(1) : null, onPath ? 0 : level + 1, state);
+  }
+  if (last < entries.length - 1) lines.push(`${inner}... ${more(entries.length - 1 - last, 'entry', 'entries')}`);
+  lines.push(indent + close + suffix);
+  state.ancestors.delete(value);
+}
+
+function focusedEntry(container: Container, segment: PathSegment): number {
+  const { entries, byValue } = container;
+  const named = typeof segment === 'object'
+    ? segment.kind === 'set-entry' ? segment.value : segment.key
+    : segment;
+  for (let i = 0; i < entries.length; i++) {
+    if ((byValue ? entries[i].value : entries[i].key) === named) return i;
+  }
+  return -1;
+}
+
+function more(count: number, singular: string, plural: string): string {
+  return `${count} more ${count === 1 ? singular : plural}`;
+}
+
+/**
+ * Opening and closing text and entries of an object shown over several lines,
+ * or null for objects shown on one line
+ */
+function containerOf(value: object, options: PropertyOptions): Container | null {
+  if (isAsymmetricMatcher(value) || typeof value === 'function' || value instanceof Accessor) return null;
+  const tag = typeTag(value);
+
+  if (Array.isArray(value)) {
+    const entries: Entry[] = [];
+    for (let i = 0; i < value.length; i++) {
+      entries.push({ key: i, label: '', value: i in value ? value[i] : HOLE });
+    }
+    return { open: `${prefixOf(value, 'Array')}[`, close: ']', entries, byValue: false };
+  }
+  if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+    const items = value as unknown as ArrayLike<unknown>;
+    const entries: Entry[] = [];
+    for (let i = 0; i < items.length; i++) entries.push({ key: i, label: '', value: items[i] });
+    return { open: `${constructorName(value) ?? tag.slice(8, -1)}(${items.length}) [`, close: ']', entries, byValue: false };
+  }
+  if (binaryBytes(value, tag) !== null) return null;
+
+  switch (tag) {
+    case '[object Map]': {
+      const entries = Array.from(value as Map<unknown, unknown>, ([key, item]) => ({
+        key,
+        label: `${renderInline(key)} => `,
+        value: item,
+      }));
+      return { open: `Map(${entries.length}) {`, close: '}', entries, byValue: false };
+    }
+    case '[object Set]': {
+      const entries = Array.from(value as Set<unknown>, item => ({ key: item, label: '', value: item }));
+      return { open: `Set(${entries.length}) {`, close: '}', entries, byValue: true };
+    }
+    case '[object Date]':
+    case '[object RegExp]':
+    case '[object URL]':
+    case '[object WeakMap]':
+    case '[object WeakSet]':
+    case '[object Promise]':
+      return null;
+  }
+  if (unbox(value, tag) !== NOT_BOXED) return null;
+
+  const entries: Entry[] = [];
+  const keys = ownKeys(value, options);
+  // Key order does not matter to the comparison, so it should not to the diff either
+  const names = keys.filter((key): key is string => typeof key === 'string').sort();
+  const ordered: Array<string | symbol> = [...names, ...keys.filter(key => typeof key === 'symbol')];
+  if (tag === '[object Error]' && Object.prototype.hasOwnProperty.call(value, 'cause') && !keys.includes('cause')) {
+    ordered.push('cause');
+  }
+  for (const key of ordered) {
+    const accessor = isAccessor(value, key);
+    entries.push({
+      key,
+      label: `${renderKey(key)}: `,
+      value: accessor ? new Accessor(value, key) : (value as Record<string | symbol, unknown>)[key],
+    });
+  }
+  if (tag === '[object Error]') {
+    return entries.length === 0 ? null : { open: `${renderInline(value)} {`, close: '}', entries, byValue: false };
+  }
+  return { open: `${prefixOf(value, 'Object')}{`, close: '}', entries, byValue: false };
+}
+
+/** A getter or setter, shown as such rather than called */
+class Accessor {
+  readonly text: string;
+
+  constructor(obj: object, key: string | symbol) {
+    const descriptor = Object.getOwnPropertyDescriptor(obj, key)!;
+    this.text = descriptor.get && descriptor.set ? '[Getter/Setter]' : descriptor.get ? '[Getter]' : '[Setter]';
+  }
+}
+
+function constructorName(value: object): string | null {
+  const constructor = (value as { constructor?: unknown }).constructor;
+  return typeof constructor === 'function' && constructor.name !== '' ? constructor.name : null;
+}
+
+/**
+ * Class name shown before the contents of an object, empty for plain objects and arrays
+ */
+function prefixOf(value: object, plain: string): string {
+  if (Object.getPrototypeOf(value) === null) return `[${plain}: null prototype] `;
+  const name = constructorName(value);
+  return name === null || name === plain ? '' : `${name} `;
+}
+
+function renderKey(key: string | symbol): string {
+  if (typeof key === 'symbol') return `[${String(key)}]`;
+  return IDENTIFIER.test(key) ? key : renderString(key);
+}
+
+function renderString(value: string): string {
+  const shown = value.length > MAX_STRING_LENGTH ? value.slice(0, MAX_STRING_LENGTH) : value;
+  const quoted = `'${JSON.stringify(shown).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+  return shown === value ? quoted : `${quoted}... ${more(value.length - shown.length, 'character', 'characters')}`;
+}
+
+/**
+ * A value shown on one line: primitives, and objects without entries of their own
+ * or nested too deep to show them
+ */
+export function renderInline(value: unknown): string {
+  if (value === HOLE) return '<empty>';
+  switch (typeof value) {
+    case 'string':
+      return renderString(value);
+    case 'number':
+      return Object.is(value, -0) ? '-0' : String(value);
+    case 'bigint':
+      return `${value}n`;
+    case 'symbol':
+    case 'boolean':
+    case 'undefined':
+      return String(value);
+    case 'function': {
+      const source = Function.prototype.toString.call(value);
+      if (source.startsWith('class')) return `[class ${value.name || '(anonymous)'}]`;
+      return `[Function: ${value.name || '(anonymous)'}]`;
+    }
+  }
+  if (value === null) return 'null';
+  const object = value as object;
+  if (object instanceof Accessor) return object.text;
+  if (isAsymmetricMatcher(object)) return String(object);
+
+  const tag = typeTag(object);
+  switch (tag) {
+    case '[object Date]': {
+      const time = (object as Date).getTime();
+      return isNaN(time) ? 'Invalid Date' : new Date(time).toISOString();
+    }
+    case '[object RegExp]':
+      return `/${(object as RegExp).source}/${(object as RegExp).flags}`;
+    case '[object URL]':
+      return `URL ${renderString(String(object))}`;
+    case '[object Error]': {
+      const message = (object as Error).message;
+      const name = (object as Error).name ?? constructorName(object) ?? 'Error';
+      return message === '' ? `[${name}]` : `[${name}: ${message}]`;
+    }
+    case '[object WeakMap]':
+    case '[object WeakSet]':
+      return `${tag.slice(8, -1)} { <items unknown> }`;
+    case '[object Promise]':
+      return 'Promise { <unknown> }';
+  }
+
+  const primitive = unbox(object, tag);
+  if (primitive !== NOT_BOXED) return `[${tag.slice(8, -1)}: ${renderInline(primitive)}]`;
+
+  const bytes = binaryBytes(object, tag);
+  if (bytes !== null) {
+    const shown = Array.from(bytes.subarray(0, MAX_BYTES), byte => byte.toString(16).padStart(2, '0'));
+    if (bytes.length > MAX_BYTES) shown.push(`... ${more(bytes.length - MAX_BYTES, 'byte', 'bytes')}`);
+    return `${constructorName(object) ?? tag.slice(8, -1)} { [Uint8Contents]: <${shown.join(' ')}>, byteLength: ${bytes.length} }`;
+  }
+
+  if (Array.isArray(object)) return `[Array(${object.length})]`;
+  const name = constructorName(object);
+  return name === null ? '[Object]' : `[${name}]`;
+}
+
+/**
+ * A path as it would read in code, e.g. `users[0].name`. Long paths keep their
+ * first and last segments.
+ */
+export function renderPath(path: readonly PathSegment[]): string {
+  let text = '';
+  for (let i = 0; i < path.length; i++) {
+    if (i === PATH_HEAD && path.length > PATH_HEAD + PATH_TAIL + 1) {
+      text += `<${path.length - PATH_HEAD - PATH_TAIL} more>`;
+      i = path.length - PATH_TAIL - 1;
+      continue;
+    }
+    const segment = path[i];
+    if (typeof segment === 'number') {
+      text += `[${segment}]`;
+    } else if (typeof segment === 'string') {
+      text += !IDENTIFIER.test(segment) ? `[${renderString(segment)}]` : i === 0 ? segment : `.${segment}`;
+    } else if (typeof segment === 'symbol') {
+      text += `[${String(segment)}]`;
+    } else if (segment.kind === 'set-entry') {
+      text += `<member ${renderInline(segment.value)}>`;
+    } else {
+      text += `.get(${renderInline(segment.key)})`;
+    }
+  }
+  return text;
+}
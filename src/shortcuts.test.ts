@@ -0,0 +1,68 @@
+import { any, createMatcher, DEEP_EQUALS, deepDiff, deepEqualCheck } from './index';
+import type { DeepEqualOptions } from './index';
+
+describe('shortcuts taken under options that leave plain values alone', () => {
+  const loop: Record<string, unknown> = { v: [1] };
+  loop.self = loop;
+  const copy: Record<string, unknown> = { v: [1] };
+  copy.self = copy;
+  const shared = { list: [1, 2, 3], inner: { deep: { deeper: [4] } } };
+  const backA: unknown[] = [1, 2];
+  const backB: unknown[] = [1];
+  backB.push(createMatcher('back', (_, equals) => equals(backA, backB)));
+  const fakeArray = (...items: unknown[]) => Object.assign(Object.create(Array.prototype), items);
+
+  const pairs: Array<[unknown, unknown]> = [
+    [{ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 }],
+    [{ a: 1, b: 2 }, { a: 1, c: 2 }],
+    [loop, copy],
+    [loop, { v: [1], self: copy }],
+    [[loop, loop], [copy, loop]],
+    [[shared, shared], [shared, { list: [1, 2, 3], inner: { deep: { deeper: [4] } } }]],
+    [[shared, { list: [1, 2, 3], inner: { deep: { deeper: [4] } } }], [shared, shared]],
+    [backA, backB],
+    [{ a: any(Number) }, { a: 1 }],
+    [[1, any(String)], [1, 2]],
+    [{ [DEEP_EQUALS]: () => true, x: 1 }, { x: 2 }],
+    [{ constructor: Error, message: 'x' }, { constructor: Error, message: 'y' }],
+    [fakeArray(1, 2), fakeArray(1, 3)],
+    [Object.setPrototypeOf([1, 2], Object.prototype), Object.setPrototypeOf([1, 2], Object.prototype)],
+    [{ at: new Date(0), pattern: /a/g }, { at: new Date(0), pattern: /a/g }],
+    [{ at: new Date(0) }, { at: new Date(1) }],
+    [[0], [-0]],
+    [[NaN], [NaN]],
+    [new Set([1, 'a', NaN]), new Set(['a', NaN, 1])],
+    [new Set([1, { a: 1 }]), new Set([{ a: 1 }, 1])],
+    [new Set([1, 2]), new Set([1, any(Number)])],
+    [new Set([any(Number), 1]), new Set([1, 2])],
+    [new Set([new Set([new Set([1])])]), new Set([new Set([new Set([2])])])],
+    [new Set([[1], [1, 2]]), new Set([[1, 2], [1]])],
+    [new Map([['a', 0]]), new Map([['a', -0]])],
+    [new Map([['a', NaN]]), new Map([['a', NaN]])],
+    [new Map([['a', shared]]), new Map([['a', shared]])],
+    [new Map([['a', undefined]]), new Map([['b', undefined]])],
+    [new Map<unknown, unknown>([['a', 1], [{ k: 1 }, 2]]), new Map<unknown, unknown>([[{ k: 1 }, 2], ['a', 1]])],
+    [new Map<unknown, unknown>([['a', { v: 1 }]]), new Map<unknown, unknown>([['a', { v: 2 }]])],
+    [new Map<unknown, unknown>([[any(String), 1]]), new Map<unknown, unknown>([['a', 1]])],
+    [new Map<unknown, unknown>([['a', 1]]), new Map<unknown, unknown>([[any(String), 1]])],
+  ];
+  const optionSets: DeepEqualOptions[] = [
+    {},
+    { strictZero: true },
+    { nanEqual: false },
+    { checkPrototypes: true },
+    { maxDepth: 2 },
+  ];
+
+  for (const options of optionSets) {
+    it(`gives the results of the full comparison with ${JSON.stringify(options)}`, () => {
+      // A node budget makes every value take the full comparison
+      const full = { ...options, maxNodes: Number.MAX_SAFE_INTEGER };
+      for (const [a, b] of pairs) {
+        const expected = deepEqualCheck(a, b, full);
+        expect(deepEqualCheck(a, b, options)).toBe(expected);
+        expect(deepDiff(a, b, options).length === 0).toBe(expected);
+      }
+    });
+  }
+});
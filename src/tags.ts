@@ -0,0 +1,77 @@
+/**
+ * Type detection by `Object.prototype.toString` tag. Unlike constructor identity,
+ * tags also recognise values created in other realms (vm contexts, iframes, workers).
+ */
+
+const objectToString = Object.prototype.toString;
+
+/** Tags of common same-realm types, found by constructor without calling toString */
+const CONSTRUCTOR_TAGS = new Map<unknown, string>([
+  [Object, '[object Object]'],
+  [Array, '[object Array]'],
+  [Date, '[object Date]'],
+  [RegExp, '[object RegExp]'],
+  [Map, '[object Map]'],
+  [Set, '[object Set]'],
+  [Error, '[object Error]'],
+  [ArrayBuffer, '[object ArrayBuffer]'],
+]);
+
+function getter(prototype: object, key: string): (this: unknown) => unknown {
+  return Object.getOwnPropertyDescriptor(prototype, key)!.get!;
+}
+
+/**
+ * Built-in methods that throw for objects lacking the internal slots of the type a
+ * tag names, keyed by that tag. No object is of a built-in missing from the runtime.
+ */
+const BRAND_CHECKS = new Map<string, (this: unknown, ...args: unknown[]) => unknown>([
+  ['[object Date]', Date.prototype.getTime],
+  ['[object RegExp]', getter(RegExp.prototype, 'source')],
+  ['[object Map]', Map.prototype.has],
+  ['[object Set]', Set.prototype.has],
+  ['[object WeakMap]', WeakMap.prototype.has],
+  ['[object WeakSet]', WeakSet.prototype.has],
+  ['[object ArrayBuffer]', getter(ArrayBuffer.prototype, 'byteLength')],
+]);
+
+function missing(): never {
+  throw new TypeError('Not available in this runtime');
+}
+
+const globals = globalThis as Record<string, any>;
+/** Brand checks of built-ins not every supported runtime has, from their prototypes */
+const OPTIONAL_CHECKS: Array<[string, (prototype: any) => (this: unknown, ...args: unknown[]) => unknown]> = [
+  ['SharedArrayBuffer', prototype => getter(prototype, 'byteLength')],
+  ['WeakRef', prototype => prototype.deref],
+  ['URL', prototype => getter(prototype, 'href')],
+  ['URLSearchParams', prototype => prototype.has],
+  ['Headers', prototype => prototype.has],
+  ['FormData', prototype => prototype.has],
+];
+for (const [name, check] of OPTIONAL_CHECKS) {
+  BRAND_CHECKS.set(`[object ${name}]`, typeof globals[name] === 'function' ? check(globals[name].prototype) : missing);
+}
+
+/**
+ * Type tag of an object. A tag claimed through `Symbol.toStringTag` (or an
+ * inherited constructor) by an object that is not of that type reads as
+ * `[object Object]`, so such objects are compared by their properties.
+ */
+export function typeTag(value: object): string {
+  return checkedTag(value, CONSTRUCTOR_TAGS.get(value.constructor) ?? objectToString.call(value));
+}
+
+/**
+ * `tag` when the value really is of the type it names, or else `[object Object]`
+ */
+export function checkedTag(value: object, tag: string): string {
+  const check = BRAND_CHECKS.get(tag);
+  if (check === undefined) return tag;
+  try {
+    check.call(value, 'x');
+    return tag;
+  } catch {
+    return '[object Object]';
+  }
+}
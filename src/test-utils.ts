@@ -0,0 +1,19 @@
+/**
+ * Helpers shared by the randomised tests. Not part of the published build.
+ */
+
+/**
+ * Seeded source of numbers in [0, 1). The same seed gives the same numbers, except
+ * that the one drawn at call `replaceAt` is replaced by another, so a value built
+ * from them differs somewhere (or, by chance, does not).
+ */
+export function createRandom(seed: number, replaceAt = -1): () => number {
+  let calls = 0;
+  return () => {
+    seed = seed + 0x6d2b79f5 | 0;
+    let t = Math.imul(seed ^ seed >>> 15, 1 | seed);
+    t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+    const value = ((t ^ t >>> 14) >>> 0) / 4294967296;
+    return calls++ === replaceAt ? (value + 0.5) % 1 : value;
+  };
+}
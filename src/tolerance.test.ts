@@ -0,0 +1,113 @@
+import { deepDiff, deepEqualCheck } from './index';
+
+describe('numeric tolerance', () => {
+  it('compares numbers exactly by default', () => {
+    expect(deepEqualCheck(0.1 + 0.2, 0.3)).toBe(false);
+    expect(deepEqualCheck(new Float64Array([0.1 + 0.2]), new Float64Array([0.3]))).toBe(false);
+  });
+
+  it('accepts numbers within epsilon', () => {
+    expect(deepEqualCheck({ x: 0.1 + 0.2 }, { x: 0.3 }, { epsilon: 1e-9 })).toBe(true);
+    expect(deepEqualCheck({ x: 1.5 }, { x: 1 }, { epsilon: 0.5 })).toBe(true);
+    expect(deepEqualCheck({ x: 1.5 }, { x: 1 }, { epsilon: 0.4 })).toBe(false);
+  });
+
+  it('accepts numbers within a relative tolerance of the larger magnitude', () => {
+    expect(deepEqualCheck([1e9], [1e9 + 1], { relativeTolerance: 1e-6 })).toBe(true);
+    expect(deepEqualCheck([1], [1.01], { relativeTolerance: 1e-6 })).toBe(false);
+    expect(deepEqualCheck([-100], [-101], { relativeTolerance: 0.01 })).toBe(true);
+  });
+
+  it('accepts numbers within a number of ulps', () => {
+    const next = 1 + Number.EPSILON;
+    expect(deepEqualCheck(1, next, { ulps: 1 })).toBe(true);
+    expect(deepEqualCheck(1, next + Number.EPSILON, { ulps: 1 })).toBe(false);
+    expect(deepEqualCheck(Number.MIN_VALUE, -Number.MIN_VALUE, { ulps: 2 })).toBe(true);
+    expect(deepEqualCheck(Number.MIN_VALUE, -Number.MIN_VALUE, { ulps: 1 })).toBe(false);
+  });
+
+  it('counts single-precision ulps in Float32Arrays', () => {
+    const a = new Float32Array([1]);
+    const b = new Float32Array([1 + 2 ** -23]);
+    expect(deepEqualCheck(a, b, { ulps: 1 })).toBe(true);
+    expect(deepEqualCheck(a, new Float32Array([1 + 2 ** -22]), { ulps: 1 })).toBe(false);
+  });
+
+  it('applies inside TypedArrays', () => {
+    expect(deepEqualCheck(new Float64Array([1, 2.0001]), new Float64Array([1, 2]), { epsilon: 1e-3 })).toBe(true);
+    expect(deepEqualCheck(new Int32Array([10, 20]), new Int32Array([11, 20]), { epsilon: 1 })).toBe(true);
+    expect(deepEqualCheck(new Float64Array([1, 2.1]), new Float64Array([1, 2]), { epsilon: 1e-3 })).toBe(false);
+    expect(deepEqualCheck(new Float64Array([1.0001]), new Float64Array([1]), { mode: 'strict', epsilon: 1e-3 })).toBe(true);
+  });
+
+  it('never applies to infinities or NaN', () => {
+    expect(deepEqualCheck(Infinity, Number.MAX_VALUE, { relativeTolerance: 1 })).toBe(false);
+    expect(deepEqualCheck(Infinity, -Infinity, { epsilon: Infinity })).toBe(false);
+    expect(deepEqualCheck(NaN, 0, { epsilon: Infinity })).toBe(false);
+    expect(deepEqualCheck(NaN, NaN, { epsilon: 1 })).toBe(true);
+    expect(deepEqualCheck(NaN, NaN, { epsilon: 1, nanEqual: false })).toBe(false);
+    expect(deepEqualCheck(new Float64Array([NaN]), new Float64Array([NaN]), { epsilon: 1, nanEqual: false })).toBe(false);
+  });
+
+  it('still tells 0 from -0 with strictZero', () => {
+    expect(deepEqualCheck(0, -0, { epsilon: 1, strictZero: true })).toBe(false);
+    expect(deepEqualCheck(new Float64Array([0]), new Float64Array([-0]), { epsilon: 1, strictZero: true })).toBe(false);
+    expect(deepEqualCheck(new Float64Array([0]), new Float64Array([-0]), { strictZero: true })).toBe(false);
+    expect(deepEqualCheck(1e-12, -0, { epsilon: 1e-9, strictZero: true })).toBe(true);
+  });
+
+  it('finds Set members and Map keys within tolerance', () => {
+    expect(deepEqualCheck(new Set([1, 2.0001]), new Set([2, 1]), { epsilon: 1e-3 })).toBe(true);
+    expect(deepEqualCheck(new Set([{ x: 1.0001 }, { x: 2 }]), new Set([{ x: 2 }, { x: 1 }]), { epsilon: 1e-3 })).toBe(true);
+    expect(deepEqualCheck(new Map([[{ x: 1.0001 }, 'a']]), new Map([[{ x: 1 }, 'a']]), { epsilon: 1e-3 })).toBe(true);
+    expect(deepEqualCheck(new Set([1, 2.1]), new Set([2, 1]), { epsilon: 1e-3 })).toBe(false);
+  });
+
+  it('pairs members within tolerance even where the first candidate is the wrong one', () => {
+    expect(deepEqualCheck(new Set([1.0, 1.05]), new Set([1.04, 0.97]), { epsilon: 0.05 })).toBe(true);
+    expect(deepEqualCheck([1.0, 1.05], [1.04, 0.97], { epsilon: 0.05, arrayOrder: 'ignore' })).toBe(true);
+    expect(deepDiff(new Set([1.0, 1.05]), new Set([1.04, 0.97]), { epsilon: 0.05 })).toEqual([]);
+    expect(deepEqualCheck(new Map([[1.0, 'a'], [1.05, 'b']]), new Map([[1.04, 'b'], [0.97, 'a']]), { epsilon: 0.05 }))
+      .toBe(true);
+    expect(deepEqualCheck(new Set([1.0, 1.05]), new Set([1.04, 0.9]), { epsilon: 0.05 })).toBe(false);
+  });
+});
+
+describe('pathTolerances', () => {
+  const a = { price: 10.004, stats: { mean: 1.2, samples: new Float64Array([1.01, 2]) } };
+  const b = { price: 10, stats: { mean: 1.25, samples: new Float64Array([1, 2]) } };
+
+  it('applies to numbers at and below matching paths', () => {
+    expect(deepEqualCheck(a, b, {
+      pathTolerances: [['price', { epsilon: 0.005 }], ['stats', { epsilon: 0.1 }]],
+    })).toBe(true);
+    expect(deepEqualCheck(a, b, { pathTolerances: [['price', { epsilon: 0.005 }]] })).toBe(false);
+  });
+
+  it('matches TypedArray elements by index', () => {
+    const options = { pathTolerances: [['stats.samples.0', { epsilon: 0.1 }] as const], epsilon: 0.1 };
+    expect(deepEqualCheck(a.stats.samples, b.stats.samples, { pathTolerances: [['0', { epsilon: 0.1 }]] })).toBe(true);
+    expect(deepEqualCheck(a.stats.samples, b.stats.samples, { pathTolerances: [['1', { epsilon: 0.1 }]] })).toBe(false);
+    expect(deepEqualCheck({ x: a.stats.samples }, { x: b.stats.samples }, options)).toBe(true);
+  });
+
+  it('uses the first matching pattern and falls back to the top-level tolerances', () => {
+    const x = { mean: 1.2, other: 1.001 };
+    const y = { mean: 1.25, other: 1 };
+    expect(deepEqualCheck(x, y, {
+      epsilon: 0.1,
+      pathTolerances: [['mean', { relativeTolerance: 0 }], ['**', { epsilon: 0.01 }]],
+    })).toBe(true);
+    expect(deepEqualCheck(x, y, {
+      epsilon: 0.1,
+      pathTolerances: [['**', { epsilon: 0.01 }], ['mean', { epsilon: 0.1 }]],
+    })).toBe(false);
+  });
+
+  it('reports the differing elements', () => {
+    expect(deepDiff(a, b, { pathTolerances: [['stats', { epsilon: 0.02 }]] })).toEqual([
+      { path: ['price'], kind: 'changed', a: 10.004, b: 10 },
+      { path: ['stats', 'mean'], kind: 'changed', a: 1.2, b: 1.25 },
+    ]);
+  });
+});
@@ -5,17 +5,366 @@
 export type Primitive = string | number | boolean | null | undefined | symbol | bigint;
 
 export interface DeepEqualOptions {
+  /**
+   * Comparison preset (default: 'default'). `'strict'` follows Node's `assert.deepStrictEqual`:
+   * matching prototypes and type tags, `Object.is` for primitives, enumerable symbol keys,
+   * array holes, and own properties of arrays, dates, errors and other built-ins.
+   * `'loose'` follows `assert.deepEqual`: `==` for primitives, prototypes and symbol keys
+   * ignored, and missing keys read as `undefined`. Options set explicitly override the preset.
+   */
+  mode?: 'default' | 'strict' | 'loose';
   /** Whether to treat NaN as equal to NaN (default: true) */
   nanEqual?: boolean;
   /** Whether to check object prototypes (default: false) */
   checkPrototypes?: boolean;
   /** Whether to treat +0 and -0 as different (default: false) */
   strictZero?: boolean;
-  /** Maximum recursion depth to prevent stack overflow (default: 1000) */
+  /** Levels of nesting compared before values count as different (default: Infinity, limited only by memory) */
   maxDepth?: number;
+  /** Custom comparators consulted before the built-in comparison rules */
+  customizers?: DeepEqualCustomizers;
+  /** Paths to leave out of the comparison, e.g. `['id', 'items.*.etag', '**.updatedAt']` */
+  ignorePaths?: PathPattern[];
+  /** When set, only these paths (and whatever leads to them) are compared */
+  onlyPaths?: PathPattern[];
+  /**
+   * Treat the second value as an expected shape the first must contain: extra object keys
+   * and extra Set/Map members on the first value are allowed (default: false)
+   */
+  partial?: boolean;
+  /**
+   * How arrays match in partial mode (default: 'exact'): same length, expected elements
+   * as a prefix, or expected elements as an unordered subset
+   */
+  partialArrays?: 'exact' | 'prefix' | 'subset';
+  /**
+   * Whether array elements must appear in the same order (default: 'strict').
+   * With `'ignore'` arrays compare as multisets: each element pairs with a distinct
+   * equal element of the other array, so duplicates must occur equally often.
+   */
+  arrayOrder?: ArrayOrder;
+  /**
+   * `arrayOrder` for arrays at matching paths, e.g. `[['**.tags', 'ignore']]`.
+   * The first matching pattern wins.
+   */
+  arrayOrderPaths?: Iterable<readonly [PathPattern, ArrayOrder]>;
+  /**
+   * Whether a key missing on one side equals an `undefined` value (or array hole)
+   * on the other (default: false; true in loose mode)
+   */
+  undefinedEqualsMissing?: boolean;
+  /**
+   * Compare binary data by bytes alone, so that e.g. a `Uint8Array`, a `Buffer` and an
+   * `ArrayBuffer` holding the same bytes are equal (default: false)
+   */
+  compareBufferBytes?: boolean;
+  /**
+   * Numbers closer than this absolute difference are equal (default: 0).
+   * Like `relativeTolerance` and `ulps`, applies to number values and TypedArray
+   * elements; a pair of numbers within any of the three tolerances is equal.
+   */
+  epsilon?: number;
+  /** Numbers whose difference is at most this fraction of the larger magnitude are equal (default: 0) */
+  relativeTolerance?: number;
+  /**
+   * Numbers at most this many representable floats apart are equal (default: 0);
+   * Float32Array elements count single-precision steps
+   */
+  ulps?: number;
+  /**
+   * Tolerances for numbers at and below matching paths, e.g. `[['**.price', { epsilon: 0.005 }]]`.
+   * The first matching pattern wins; tolerances it leaves out come from the top-level options.
+   */
+  pathTolerances?: Iterable<readonly [PathPattern, NumericTolerance]>;
+  /**
+   * Compare objects implementing `Symbol.iterator` that have no built-in handling
+   * by the values they produce, in order, instead of by their own properties
+   * (default: false). Iterating consumes one-shot iterators such as generators.
+   */
+  compareIterables?: boolean;
+  /**
+   * Compare instances of classes defining their own `valueOf` (Decimal-like, Moment-like)
+   * by its result instead of by their properties (default: false). Both values must have
+   * the same constructor; results that are objects fall back to the property comparison.
+   */
+  useValueOf?: boolean;
+  /** Whether to compare the `stack` of errors (default: false) */
+  compareErrorStack?: boolean;
+  /** Whether to compare enumerable symbol-keyed properties (default: false) */
+  symbolKeys?: boolean;
+  /**
+   * Whether to compare non-enumerable own properties too (default: false).
+   * Enumerability itself is only compared with `compareDescriptors`.
+   */
+  nonEnumerable?: boolean;
+  /**
+   * Whether to compare property attributes (enumerable, configurable, writable) and
+   * getters/setters by identity instead of reading accessor values (default: false)
+   */
+  compareDescriptors?: boolean;
+  /**
+   * Require both values to share references in the same places (default: false).
+   * By default an object reachable twice is compared twice, so `[x, x]` equals `[x, copyOfX]`;
+   * with this option every object must pair with one and the same object on the other side.
+   */
+  preserveSharedReferences?: boolean;
+  /**
+   * Pairs of values compared, nested ones included, before the comparison gives up and
+   * counts the values as different (default: Infinity). Like `maxTimeMs` and `signal`,
+   * bounds the work spent on untrusted input.
+   */
+  maxNodes?: number;
+  /** Milliseconds a comparison may take before it gives up, checked every few hundred values (default: Infinity) */
+  maxTimeMs?: number;
+  /** Makes the comparison give up once aborted, checked every few hundred values */
+  signal?: AbortSignal;
+  /**
+   * Throw a `DeepEqualLimitError` as soon as `maxDepth`, `maxNodes`, `maxTimeMs` or `signal`
+   * stops the comparison, instead of counting the values as different (default: false)
+   */
+  throwOnLimit?: boolean;
 }
 
-export interface RequiredDeepEqualOptions extends Required<DeepEqualOptions> {}
+/** How far apart two numbers may be and still count as equal */
+export interface NumericTolerance {
+  /** Largest absolute difference */
+  epsilon?: number;
+  /** Largest difference as a fraction of the larger magnitude */
+  relativeTolerance?: number;
+  /** Largest distance in representable floats (units in the last place) */
+  ulps?: number;
+}
+
+/** Whether array elements are compared by position or as an unordered multiset */
+export type ArrayOrder = 'strict' | 'ignore';
+
+export interface RequiredDeepEqualOptions extends Required<Omit<
+  DeepEqualOptions,
+  'customizers' | 'ignorePaths' | 'onlyPaths' | 'pathTolerances' | 'arrayOrderPaths' | 'signal'
+>> {
+  signal: AbortSignal | null;
+  customizers: CompiledCustomizers | null;
+  ignorePaths: CompiledPathPattern[];
+  onlyPaths: CompiledPathPattern[] | null;
+  pathTolerances: Array<[CompiledPathPattern, Required<NumericTolerance>]>;
+  arrayOrderPaths: Array<[CompiledPathPattern, ArrayOrder]>;
+}
+
+/**
+ * Path pattern: a dotted string (`'items.*.id'`) or an array of segments.
+ * `*` matches exactly one segment and `**` matches any number of segments.
+ */
+export type PathPattern = string | ReadonlyArray<string | number | symbol>;
+
+/** Information passed to a customizer alongside the two values */
+export interface CustomizerContext {
+  /** Path of the values being compared */
+  path: readonly PathSegment[];
+  /** Current recursion depth */
+  depth: number;
+  /**
+   * Compares two values with the default rules, sharing circular-reference tracking.
+   * Path customizers are not applied to the values passed in directly.
+   */
+  equals: (a: unknown, b: unknown) => boolean;
+}
+
+/**
+ * Custom comparator: returns true or false to decide the comparison,
+ * or undefined to fall through to the default rules
+ */
+export type Customizer = (a: unknown, b: unknown, context: CustomizerContext) => boolean | undefined;
+
+export type AnyConstructor = abstract new (...args: any[]) => unknown;
+
+export interface DeepEqualCustomizers {
+  /** Comparators keyed by constructor, consulted before built-in type handling */
+  byConstructor?: Iterable<readonly [AnyConstructor, Customizer]>;
+  /** Comparators keyed by path pattern, consulted for every value (primitives included) */
+  byPath?: Iterable<readonly [PathPattern, Customizer]>;
+}
+
+/** Normalized path pattern: wildcards are the strings `*` and `**` */
+export type CompiledPathPattern = ReadonlyArray<string | symbol>;
+
+export interface CompiledCustomizers {
+  byConstructor: Map<unknown, Customizer>;
+  byPath: Array<[CompiledPathPattern, Customizer]>;
+}
+
+/** Path segment identifying a member of a Set */
+export interface SetEntrySegment {
+  readonly kind: 'set-entry';
+  readonly value: unknown;
+}
+
+/** Path segment identifying an entry of a Map by its key */
+export interface MapKeySegment {
+  readonly kind: 'map-key';
+  readonly key: unknown;
+}
+
+/** One step of a path from the root value down to a nested value */
+export type PathSegment = string | number | symbol | SetEntrySegment | MapKeySegment;
+
+/** Why two values at a given path are not equal */
+export type DeepDiffKind =
+  | 'changed'
+  | 'added'
+  | 'removed'
+  | 'typeMismatch'
+  | 'lengthMismatch'
+  | 'constructorMismatch'
+  | 'descriptorMismatch'
+  | 'matcherMismatch'
+  | 'maxDepthExceeded'
+  | 'limitExceeded';
+
+/** A single difference reported by `deepDiff` */
+export interface DeepDiffEntry {
+  /** Location of the difference, starting from the root values */
+  path: PathSegment[];
+  kind: DeepDiffKind;
+  /** Value on the left-hand side (undefined for `added`) */
+  a: unknown;
+  /** Value on the right-hand side (undefined for `removed`) */
+  b: unknown;
+}
+
+/** Limit that stopped a comparison before it could tell whether the values are equal */
+export type DeepEqualLimitReason = 'maxDepth' | 'maxNodes' | 'maxTimeMs' | 'aborted';
+
+/** Work done by a comparison */
+export interface DeepEqualStats {
+  /** Pairs of values compared, nested ones included */
+  nodes: number;
+  /** Deepest level of nesting reached */
+  depth: number;
+  /** Milliseconds the comparison took */
+  timeMs: number;
+}
+
+/** Outcome of `deepEqualDetailed` */
+export interface DeepEqualResult {
+  /** Whether the values are equal, or 'unknown' when a limit was reached before that could be told */
+  equal: boolean | 'unknown';
+  /** Kind of the difference found, or the limit reached; null when equal */
+  reason: DeepDiffKind | DeepEqualLimitReason | null;
+  /** Where the difference was found or the limit reached; empty when equal */
+  path: PathSegment[];
+  stats: DeepEqualStats;
+}
+
+/** A deep equality comparator with its options fixed, as made by `createDeepEqual` */
+export type DeepEqualFunction = <T = unknown>(a: T, b: T) => boolean;
+
+export interface DeepEqualFactoryOptions {
+  /**
+   * Reuse one traversal state across calls, clearing it afterwards, instead of
+   * allocating a new one per call (default: false). Nested calls of the same
+   * comparator, e.g. from a customizer, still get a state of their own.
+   */
+  reuseState?: boolean;
+}
+
+/**
+ * Pairs of objects under comparison in default mode, from the root to the current one.
+ * Shared by trial comparisons, which leave the stack as they found it.
+ */
+export interface PairStack {
+  /** Left-hand objects of the pairs, outermost first */
+  a: object[];
+  /** Right-hand objects of the pairs, outermost first */
+  b: object[];
+  /** Levels of the left-hand objects beyond the first few, which are searched by scanning; null until needed */
+  deepA: Map<object, number> | null;
+  /** Levels of the right-hand objects beyond the first few */
+  deepB: Map<object, number> | null;
+  /** Lowest index a reference back into the stack led to since the current pair was entered */
+  closedAt: number;
+  /** Deepest depth an object was compared at since the current pair was entered */
+  deepest: number;
+  /** Number of pairs of objects compared so far */
+  compared: number;
+  /** Whether pairs found equal are remembered, which they are not when equality depends on the path */
+  remember: boolean;
+  /**
+   * Counterpart each left-hand object was found equal to without relying on a pair
+   * enclosing it; Maps when reused across calls, null until a pair is remembered
+   */
+  equalTo: WeakMap<object, object> | Map<object, object> | null;
+  /** Levels of objects below those pairs, as the same pair met deeper reaches `maxDepth` sooner */
+  equalHeight: WeakMap<object, number> | Map<object, number> | null;
+}
+
+/** Counterparts of every object compared so far, on both sides, for `preserveSharedReferences` */
+export interface SharedReferences {
+  a: WeakMap<object, object> | Map<object, object>;
+  b: WeakMap<object, object> | Map<object, object>;
+}
+
+/** A limit reached during a comparison, with where and the values compared there */
+export interface ReachedLimit {
+  reason: DeepEqualLimitReason;
+  path: PathSegment[];
+  a: unknown;
+  b: unknown;
+}
+
+/**
+ * Budgets of a comparison and what it has spent of them
+ */
+export interface ComparisonLimits {
+  /** Pairs of values compared so far */
+  nodes: number;
+  /** Deepest level reached so far */
+  deepest: number;
+  /** Time from `now()` past which the comparison gives up */
+  deadline: number;
+  /** First limit reached, `maxDepth` included; null while none was */
+  reached: ReachedLimit | null;
+  /** Error thrown to stop the comparison, when a budget ran out or at the first difference */
+  stopped: Error | null;
+  /** Whether to stop at the first difference collected, as `deepEqualDetailed` needs no others */
+  stopAtDifference: boolean;
+}
+
+/**
+ * Path patterns matched against a path that grows and shrinks at its end, as the
+ * path of a traversal does. The pattern positions reached after each prefix of the
+ * path are kept, so a check only looks at the segments added since the last one.
+ */
+export interface PathMatcher {
+  /** Positions each pattern can have reached after the first `i` segments of the path, at index `i` */
+  positions: Map<CompiledPathPattern, Array<readonly number[]>>;
+}
+
+/**
+ * Internal traversal state shared by every comparison step
+ */
+export interface CompareState {
+  options: RequiredDeepEqualOptions;
+  /** Pairs under comparison; null in strict and loose modes, which use `stack` */
+  pairs: PairStack | null;
+  /** Counterparts recorded with `preserveSharedReferences`, null otherwise */
+  shared: SharedReferences | null;
+  /** `shared` maps of enclosing comparisons, consulted but never written by trial comparisons */
+  outerShared: readonly SharedReferences[];
+  /** Current path from the root; null when no feature needs it */
+  path: PathSegment[] | null;
+  /** Matches the path against the path options; null when there are none */
+  pathMatcher: PathMatcher | null;
+  /** Collected differences; null when only a boolean result is needed */
+  diffs: DeepDiffEntry[] | null;
+  /** Objects currently being compared on either side; used instead of `pairs` in strict and loose modes */
+  stack: Set<object> | null;
+  /** Depth at which path customizers are bypassed (for a customizer's own `equals` calls) */
+  bypassDepth: number;
+  /** Budgets shared by every nested comparison; null when none is set */
+  limits: ComparisonLimits | null;
+  /** Whether plain objects and arrays can take the shortcut of `comparePlainly` */
+  plain: boolean;
+}
 
 export type TypedArrayConstructor = 
   | Int8ArrayConstructor